@@ -7,12 +7,18 @@ import { ThemeProvider } from "@/hooks/use-theme";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import ApiTester from "@/pages/api-tester";
+import Dashboard from "@/pages/dashboard";
+import AuthPage from "@/pages/auth";
+import History from "@/pages/history";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/api-tester" component={ApiTester} />
+      <Route path="/dashboard" component={Dashboard} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/history" component={History} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminKey } from "@/hooks/use-admin-key";
+import type { CacheEntryInfo, YoutubeResponse } from "@shared/schema";
+
+interface CachePanelProps {
+  response?: YoutubeResponse;
+}
+
+interface CacheListResponse {
+  success: boolean;
+  store: string;
+  totalEntries: number;
+  totalBytes: number;
+  entries: CacheEntryInfo[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+export default function CachePanel({ response }: CachePanelProps) {
+  const [videoId, setVideoId] = useState('');
+  const [model, setModel] = useState('');
+  const { toast } = useToast();
+  const { adminKey, setAdminKey, adminHeaders } = useAdminKey();
+
+  // The cache routes are admin-only, so nothing is fetched until a key is entered
+  const { data, error, isLoading, isFetching, refetch } = useQuery<CacheListResponse>({
+    queryKey: ['/api/cache', adminKey],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/cache', undefined, adminHeaders);
+      return await res.json();
+    },
+    enabled: !!adminKey
+  });
+
+  // A new response may have added entries
+  useEffect(() => {
+    if (response) {
+      setVideoId(response.videoId);
+      if (adminKey) {
+        refetch();
+      }
+    }
+  }, [response, adminKey, refetch]);
+
+  const purgeMutation = useMutation({
+    mutationFn: async (path: string) => {
+      const res = await apiRequest('DELETE', path, undefined, adminHeaders);
+      return await res.json() as { success: boolean; deleted?: string[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cache'] });
+      toast({
+        title: "Cache purged",
+        description: result.deleted ? `${result.deleted.length} entries removed` : "All entries removed"
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Purge failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const entries = data?.entries || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Cache</CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={!adminKey || isFetching}
+          data-testid="button-refresh-cache"
+        >
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="cache-admin-key">Admin key</Label>
+          <Input
+            id="cache-admin-key"
+            type="password"
+            value={adminKey}
+            placeholder="ADMIN_API_KEY or an admin-scoped key"
+            className="font-mono text-sm"
+            onChange={(e) => setAdminKey(e.target.value.trim())}
+            data-testid="input-cache-admin-key"
+          />
+          {error && <p className="text-xs text-destructive">{error.message}</p>}
+        </div>
+
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Store: <span className="font-mono">{data?.store || '-'}</span></span>
+          <span>{data?.totalEntries ?? 0} entries, {formatBytes(data?.totalBytes ?? 0)}</span>
+        </div>
+
+        <ScrollArea className="h-56 rounded border border-border">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : !adminKey ? (
+            <p className="p-4 text-xs text-muted-foreground text-center">Enter an admin key to view the cache</p>
+          ) : entries.length === 0 ? (
+            <p className="p-4 text-xs text-muted-foreground text-center">Cache is empty</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {entries.map(entry => (
+                <li key={entry.key} className="flex items-start justify-between gap-2 p-2 text-xs" data-testid={`cache-entry-${entry.key}`}>
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="text-[10px]">{entry.tier}</Badge>
+                      {entry.stale && <Badge variant="outline" className="text-[10px]">stale</Badge>}
+                      <span className="text-muted-foreground">{formatBytes(entry.sizeBytes)}</span>
+                    </div>
+                    <p className="font-mono truncate" title={entry.key}>{entry.key}</p>
+                    <p className="text-muted-foreground">
+                      age {formatDuration(entry.ageSeconds)} · expires in {formatDuration(entry.ttlRemainingSeconds)} · {entry.hits} hits
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => purgeMutation.mutate(`/api/cache/${encodeURIComponent(entry.key)}`)}
+                    disabled={purgeMutation.isPending}
+                    data-testid={`button-delete-cache-${entry.key}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <div className="space-y-2">
+          <Label htmlFor="purge-video">Purge by video ID</Label>
+          <div className="flex gap-2">
+            <Input
+              id="purge-video"
+              value={videoId}
+              placeholder="dQw4w9WgXcQ"
+              className="font-mono text-sm"
+              onChange={(e) => setVideoId(e.target.value.trim())}
+              data-testid="input-purge-video"
+            />
+            <Button
+              variant="secondary"
+              onClick={() => purgeMutation.mutate(`/api/cache/video/${encodeURIComponent(videoId)}`)}
+              disabled={!adminKey || !videoId || purgeMutation.isPending}
+              data-testid="button-purge-video"
+            >
+              Purge
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="purge-model">Purge by model</Label>
+          <div className="flex gap-2">
+            <Input
+              id="purge-model"
+              value={model}
+              placeholder="gpt-5"
+              className="font-mono text-sm"
+              onChange={(e) => setModel(e.target.value.trim())}
+              data-testid="input-purge-model"
+            />
+            <Button
+              variant="secondary"
+              onClick={() => purgeMutation.mutate(`/api/cache/model/${encodeURIComponent(model)}`)}
+              disabled={!adminKey || !model || purgeMutation.isPending}
+              data-testid="button-purge-model"
+            >
+              Purge
+            </Button>
+          </div>
+        </div>
+
+        <Button
+          variant="destructive"
+          className="w-full"
+          onClick={() => purgeMutation.mutate('/api/cache')}
+          disabled={entries.length === 0 || purgeMutation.isPending}
+          data-testid="button-clear-cache"
+        >
+          Clear entire cache
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
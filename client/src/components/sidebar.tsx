@@ -5,12 +5,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import type { YoutubeResponse } from "@shared/schema";
+import CachePanel from "@/components/cache-panel";
+import { exportChapters } from "@shared/chapter-export";
+import type { ChapterExportFormat, YoutubeResponse } from "@shared/schema";
 
 interface SidebarProps {
   response?: YoutubeResponse;
 }
 
+// The YouTube block is copied for pasting into a description; the other formats are downloaded
+const CHAPTER_EXPORTS: Array<{ format: ChapterExportFormat; label: string }> = [
+  { format: "youtube", label: "Copy YouTube description chapters" },
+  { format: "vtt", label: "Download WebVTT chapters" },
+  { format: "srt", label: "Download SRT" },
+  { format: "markdown", label: "Download Markdown with links" },
+  { format: "ffmetadata", label: "Download ffmpeg FFMETADATA" }
+];
+
 export default function Sidebar({ response }: SidebarProps) {
   const [config, setConfig] = useState({
     timeout: 30,
@@ -45,6 +56,44 @@ export default function Sidebar({ response }: SidebarProps) {
     });
   };
 
+  const exportChapterFormat = (format: ChapterExportFormat) => {
+    if (!response) return;
+
+    const exported = exportChapters(response, format);
+    if (!exported.ok) {
+      toast({
+        title: "Export failed",
+        description: exported.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (format === "youtube") {
+      navigator.clipboard?.writeText(exported.value.body).then(() => {
+        toast({
+          title: "Copied",
+          description: "Chapters copied, paste them into the video description"
+        });
+      }).catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to copy to clipboard",
+          variant: "destructive"
+        });
+      });
+      return;
+    }
+
+    const blob = new Blob([exported.value.body], { type: exported.value.contentType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `youtube-tldr-${response.videoId}.${exported.value.extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const copyCurl = () => {
     const curlCommand = `curl -X GET "${window.location.origin}/api/build?url=https://youtube.com/watch?v=..." \\
   -H "Accept: application/json"`;
@@ -147,6 +196,18 @@ export default function Sidebar({ response }: SidebarProps) {
           >
             Export response as JSON
           </Button>
+          {CHAPTER_EXPORTS.map(({ format, label }) => (
+            <Button
+              key={format}
+              variant="secondary"
+              className="w-full justify-start"
+              onClick={() => exportChapterFormat(format)}
+              disabled={!response?.chapters.length}
+              data-testid={`button-export-${format}`}
+            >
+              {label}
+            </Button>
+          ))}
           <Button 
             variant="secondary" 
             className="w-full justify-start"
@@ -158,6 +219,9 @@ export default function Sidebar({ response }: SidebarProps) {
         </CardContent>
       </Card>
 
+      {/* Cache administration */}
+      <CachePanel response={response} />
+
       {/* API Documentation */}
       <Card>
         <CardHeader>
@@ -179,6 +243,10 @@ export default function Sidebar({ response }: SidebarProps) {
                 <dt className="text-muted-foreground font-mono">model</dt>
                 <dd className="text-muted-foreground">optional</dd>
               </div>
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground font-mono">format</dt>
+                <dd className="text-muted-foreground">optional</dd>
+              </div>
             </dl>
           </div>
           
@@ -1,20 +1,48 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, Clock } from "lucide-react";
-import type { YoutubeResponse } from "@shared/schema";
+import { CheckCircle, XCircle, Clock, Loader2, RotateCw } from "lucide-react";
+import type { ProgressEvent, YoutubeResponse } from "@shared/schema";
 
 interface ResponseTabsProps {
   response?: YoutubeResponse;
   logs?: string[];
   headers?: Record<string, string>;
+  progress?: ProgressEvent[];
 }
 
-export default function ResponseTabs({ response, logs = [], headers = {} }: ResponseTabsProps) {
+export default function ResponseTabs({ response, logs = [], headers = {}, progress = [] }: ResponseTabsProps) {
   const [activeTab, setActiveTab] = useState("response");
+  const isStreaming = progress.length > 0 && !progress.some(event => event.type === 'result' || event.type === 'failure');
 
-  if (!response && logs.length === 0) {
+  // Follow the live timeline while a streamed request is running
+  useEffect(() => {
+    if (isStreaming) {
+      setActiveTab("timeline");
+    }
+  }, [isStreaming]);
+
+  useEffect(() => {
+    if (response) {
+      setActiveTab("response");
+    }
+  }, [response]);
+
+  const getProgressIcon = (event: ProgressEvent) => {
+    switch (event.status) {
+      case 'succeeded':
+        return <CheckCircle className="w-4 h-4 text-green-500" />;
+      case 'failed':
+        return event.type === 'retry'
+          ? <RotateCw className="w-4 h-4 text-yellow-500" />
+          : <XCircle className="w-4 h-4 text-red-500" />;
+      default:
+        return <Loader2 className="w-4 h-4 text-muted-foreground animate-spin" />;
+    }
+  };
+
+  if (!response && logs.length === 0 && progress.length === 0) {
     return (
       <Card>
         <CardContent className="pt-6">
@@ -41,6 +69,13 @@ export default function ResponseTabs({ response, logs = [], headers = {} }: Resp
             >
               Response
             </TabsTrigger>
+            <TabsTrigger 
+              value="timeline" 
+              className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none"
+              data-testid="tab-timeline"
+            >
+              Timeline
+            </TabsTrigger>
             <TabsTrigger 
               value="logs" 
               className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none"
@@ -154,6 +189,54 @@ export default function ResponseTabs({ response, logs = [], headers = {} }: Resp
             )}
           </TabsContent>
 
+          <TabsContent value="timeline" className="mt-0">
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-card-foreground">Processing Timeline</h3>
+              <div className="space-y-2 max-h-96 overflow-y-auto" data-testid="container-timeline">
+                {progress.length > 0 ? (
+                  progress.map((event, index) => (
+                    <div 
+                      key={index} 
+                      className="flex items-start space-x-3 p-3 bg-muted rounded-lg"
+                      data-testid={`timeline-entry-${index}`}
+                    >
+                      <div className="pt-0.5">
+                        {getProgressIcon(event)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <Badge variant="outline" className="text-xs">{event.type}</Badge>
+                          <span className="text-xs text-muted-foreground font-mono">
+                            {new Date(event.timestamp).toLocaleTimeString()}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground mt-1">{event.message}</p>
+                        {event.type === 'llm' && event.data?.chapters?.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {event.data.chapters.map((chapter: { time: string; title: string }, chapterIndex: number) => (
+                              <li key={chapterIndex} className="text-xs text-muted-foreground">
+                                <span className="font-mono text-primary mr-2">{chapter.time}</span>
+                                {chapter.title}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-muted-foreground text-sm">No progress events. Enable live progress to see the pipeline timeline.</p>
+                )}
+                {isStreaming && (
+                  <div className="flex items-center space-x-2 text-sm text-muted-foreground p-3">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Waiting for next stage...</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
           <TabsContent value="logs" className="mt-0">
             <div className="space-y-3">
               <div className="flex items-center justify-between">
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "adminKey";
+
+/**
+ * The admin key (ADMIN_API_KEY or an admin-scoped key) that the admin panels send as X-API-Key.
+ * Kept in sessionStorage so it is forgotten when the tab closes.
+ */
+export function useAdminKey() {
+  const [adminKey, setAdminKey] = useState(() => sessionStorage.getItem(STORAGE_KEY) || "");
+
+  useEffect(() => {
+    if (adminKey) {
+      sessionStorage.setItem(STORAGE_KEY, adminKey);
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }, [adminKey]);
+
+  return {
+    adminKey,
+    setAdminKey,
+    adminHeaders: { "X-API-Key": adminKey }
+  };
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { Credentials, PublicUser } from "@shared/schema";
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+interface AuthResponse {
+  success: boolean;
+  user: PublicUser;
+}
+
+// apiRequest errors read "<status>: <body>"; surface the server's message instead
+function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * The signed-in user (null when signed out) and the mutations that change it
+ */
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthResponse | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+
+  const onSignedIn = (response: AuthResponse) => {
+    queryClient.setQueryData(ME_QUERY_KEY, response);
+    queryClient.invalidateQueries({ queryKey: ['/api/history'] });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/login', credentials);
+      return await res.json() as AuthResponse;
+    },
+    onSuccess: onSignedIn
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/signup', credentials);
+      return await res.json() as AuthResponse;
+    },
+    onSuccess: onSignedIn
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+      queryClient.removeQueries({ queryKey: ['/api/history'] });
+    }
+  });
+
+  return {
+    user: data?.user ?? null,
+    isLoading,
+    loginMutation,
+    signupMutation,
+    logoutMutation,
+    errorMessage
+  };
+}
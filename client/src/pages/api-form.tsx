@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,15 +9,17 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { YoutubeResponse } from "@shared/schema";
+import type { ModelInfo, ProgressEvent, YoutubeResponse } from "@shared/schema";
+import { parseYouTubeUrl } from "@shared/youtube-url";
 
 interface ApiFormProps {
   onResponse?: (response: YoutubeResponse) => void;
   onLogs?: (logs: string[]) => void;
   onHeaders?: (headers: Record<string, string>) => void;
+  onProgress?: (events: ProgressEvent[]) => void;
 }
 
-export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps) {
+export default function ApiForm({ onResponse, onLogs, onHeaders, onProgress }: ApiFormProps) {
   const [formData, setFormData] = useState({
     url: '',
     lang: 'ru',
@@ -25,9 +27,22 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
   });
   const [enableCache, setEnableCache] = useState(true);
   const [enableLogs, setEnableLogs] = useState(true);
+  const [enableStream, setEnableStream] = useState(true);
   
   const { toast } = useToast();
 
+  // Only models whose provider is configured on the server
+  const { data: modelsData, isLoading: modelsLoading } = useQuery<{ success: boolean; models: ModelInfo[] }>({
+    queryKey: ['/api/models']
+  });
+  const models = modelsData?.models || [];
+
+  useEffect(() => {
+    if (models.length > 0 && !models.some(model => model.id === formData.model)) {
+      setFormData(prev => ({ ...prev, model: models[0].id }));
+    }
+  }, [models, formData.model]);
+
   const processVideoMutation = useMutation({
     mutationFn: async () => {
       const params = new URLSearchParams({
@@ -39,15 +54,14 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
       });
 
       const startTime = Date.now();
+      const endpoint = enableStream ? '/api/build/stream' : '/api/build';
       
       // Use fetch directly to handle HTTP 400 responses properly
-      const response = await fetch(`/api/build?${params.toString()}`, {
+      const response = await fetch(`${endpoint}?${params.toString()}`, {
         method: 'GET',
         credentials: 'include'
       });
       
-      const data = await response.json();
-      
       // Capture headers
       const headers: Record<string, string> = {};
       response.headers.forEach((value, key) => {
@@ -56,8 +70,13 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
       headers['x-response-time'] = `${Date.now() - startTime}ms`;
       
       onHeaders?.(headers);
-      
-      return data;
+
+      // Validation errors come back as plain JSON even from the streaming endpoint
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        return await response.json();
+      }
+
+      return await readProgressStream(response);
     },
     onSuccess: (data) => {
       // Always pass the response to display component, regardless of success/error status
@@ -86,6 +105,43 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
     }
   });
 
+  const readProgressStream = async (response: Response): Promise<YoutubeResponse> => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const events: ProgressEvent[] = [];
+    let buffer = '';
+    let result: YoutubeResponse | undefined;
+
+    onProgress?.([]);
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+
+      for (const message of messages) {
+        const line = message.split('\n').find(l => l.startsWith('data: '));
+        if (!line) continue;
+
+        const event: ProgressEvent = JSON.parse(line.slice('data: '.length));
+        events.push(event);
+        onProgress?.([...events]);
+
+        if (event.type === 'result' || event.type === 'failure') {
+          result = event.data;
+        }
+      }
+    }
+
+    if (!result) {
+      throw new Error('Stream ended without a result');
+    }
+    return result;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -98,12 +154,24 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
       return;
     }
 
+    const parsedUrl = parseYouTubeUrl(formData.url);
+    if (!parsedUrl.ok) {
+      toast({
+        title: "Validation Error",
+        description: parsedUrl.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
     const logs = [`[INFO] ${new Date().toISOString()} - API request initiated for URL: ${formData.url}`];
     if (enableLogs) {
       logs.push(`[INFO] ${new Date().toISOString()} - Language: ${formData.lang}, Model: ${formData.model}`);
       logs.push(`[INFO] ${new Date().toISOString()} - Cache enabled: ${enableCache}`);
+      logs.push(`[INFO] ${new Date().toISOString()} - Live progress: ${enableStream}`);
     }
     onLogs?.(logs);
+    onProgress?.([]);
 
     processVideoMutation.mutate();
   };
@@ -131,7 +199,7 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
               <div className="flex space-x-2">
                 <Input
                   id="youtube-url"
-                  type="url"
+                  type="text"
                   placeholder="https://www.youtube.com/watch?v=dQw4w9WgXcQ"
                   value={formData.url}
                   onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
@@ -147,7 +215,7 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground">
-                Enter a YouTube video URL to extract transcript and generate summary
+                Enter a YouTube link (watch, youtu.be, shorts, live, embed) or a video ID to extract transcript and generate summary
               </p>
             </div>
             
@@ -171,14 +239,13 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
               <div className="space-y-2">
                 <Label htmlFor="model">LLM Model</Label>
                 <Select value={formData.model} onValueChange={(value) => setFormData(prev => ({ ...prev, model: value }))}>
-                  <SelectTrigger data-testid="select-model">
-                    <SelectValue />
+                  <SelectTrigger data-testid="select-model" disabled={modelsLoading || models.length === 0}>
+                    <SelectValue placeholder={modelsLoading ? "Loading models..." : "No models configured"} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="gpt-5">GPT-5 (Latest)</SelectItem>
-                    <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                    <SelectItem value="gemma2:2b">Gemma 2 (2B)</SelectItem>
-                    <SelectItem value="llama3:8b">Llama 3 (8B)</SelectItem>
+                    {models.map(model => (
+                      <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -209,6 +276,17 @@ export default function ApiForm({ onResponse, onLogs, onHeaders }: ApiFormProps)
                   Detailed logging
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="enable-stream" 
+                  checked={enableStream}
+                  onCheckedChange={(checked) => setEnableStream(!!checked)}
+                  data-testid="checkbox-enable-stream"
+                />
+                <Label htmlFor="enable-stream" className="text-sm text-muted-foreground">
+                  Live progress
+                </Label>
+              </div>
             </div>
             <Button
               type="submit"
@@ -3,12 +3,13 @@ import Header from "./header";
 import ApiForm from "./api-form";
 import ResponseTabs from "@/components/ui/response-tabs";
 import Sidebar from "@/components/sidebar";
-import type { YoutubeResponse } from "@shared/schema";
+import type { ProgressEvent, YoutubeResponse } from "@shared/schema";
 
 export default function ApiTester() {
   const [response, setResponse] = useState<YoutubeResponse | undefined>(undefined);
   const [logs, setLogs] = useState<string[]>([]);
   const [headers, setHeaders] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<ProgressEvent[]>([]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -21,16 +22,18 @@ export default function ApiTester() {
               onResponse={setResponse}
               onLogs={setLogs}
               onHeaders={setHeaders}
+              onProgress={setProgress}
             />
             <ResponseTabs 
               response={response}
               logs={logs}
               headers={headers}
+              progress={progress}
             />
           </div>
           
           <div className="lg:col-span-4">
-            <Sidebar />
+            <Sidebar response={response} />
           </div>
         </div>
       </div>
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import Header from "./header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+type Mode = "login" | "signup";
+
+export default function AuthPage() {
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [, navigate] = useLocation();
+  const { user, loginMutation, signupMutation, errorMessage } = useAuth();
+  const { toast } = useToast();
+
+  // Signed-in visitors have nothing to do here
+  useEffect(() => {
+    if (user) {
+      navigate('/history');
+    }
+  }, [user, navigate]);
+
+  const mutation = mode === "login" ? loginMutation : signupMutation;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    mutation.mutate({ username, password }, {
+      onError: (error: Error) => {
+        toast({
+          title: mode === "login" ? "Sign in failed" : "Sign up failed",
+          description: errorMessage(error),
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-md mx-auto px-6 py-12">
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+            <CardDescription>Sign in to keep a history of the videos you process</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+                <TabsTrigger value="signup" data-testid="tab-signup">Sign up</TabsTrigger>
+              </TabsList>
+
+              {(["login", "signup"] as const).map(tab => (
+                <TabsContent key={tab} value={tab}>
+                  <form onSubmit={handleSubmit} className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`${tab}-username`}>Username</Label>
+                      <Input
+                        id={`${tab}-username`}
+                        autoComplete="username"
+                        value={username}
+                        onChange={(event) => setUsername(event.target.value)}
+                        data-testid={`input-${tab}-username`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`${tab}-password`}>Password</Label>
+                      <Input
+                        id={`${tab}-password`}
+                        type="password"
+                        autoComplete={tab === "login" ? "current-password" : "new-password"}
+                        value={password}
+                        onChange={(event) => setPassword(event.target.value)}
+                        data-testid={`input-${tab}-password`}
+                      />
+                      {tab === "signup" && (
+                        <p className="text-xs text-muted-foreground">At least 8 characters</p>
+                      )}
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={mutation.isPending || !username || !password}
+                      data-testid={`button-${tab}`}
+                    >
+                      {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {tab === "login" ? "Sign in" : "Create account"}
+                    </Button>
+                  </form>
+                </TabsContent>
+              ))}
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import Header from "./header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import { Loader2, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAdminKey } from "@/hooks/use-admin-key";
+import type { AnalyticsDashboard, AnalyticsTimeframe } from "@shared/schema";
+
+// Polling keeps the charts live without a websocket
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const volumeChartConfig = {
+  successful: { label: "Successful", color: "var(--chart-2)" },
+  failed: { label: "Failed", color: "var(--chart-5)" }
+} satisfies ChartConfig;
+
+const latencyChartConfig = {
+  value: { label: "Latency (ms)", color: "var(--chart-1)" }
+} satisfies ChartConfig;
+
+const breakdownChartConfig = {
+  count: { label: "Requests", color: "var(--chart-3)" }
+} satisfies ChartConfig;
+
+function formatBucket(bucket: string, timeframe: AnalyticsTimeframe): string {
+  const date = new Date(bucket);
+  if (timeframe === 'week') {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatPercent(percent: number): string {
+  return `${percent.toFixed(1)}%`;
+}
+
+interface StatCardProps {
+  title: string;
+  value: string;
+  description: string;
+}
+
+function StatCard({ title, value, description }: StatCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl" data-testid={`stat-${title.toLowerCase().replace(/\s+/g, '-')}`}>
+          {value}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface BreakdownChartProps {
+  title: string;
+  data: Array<{ value: string; count: number }>;
+}
+
+function BreakdownChart({ title, data }: BreakdownChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No requests in this timeframe</p>
+        ) : (
+          <ChartContainer config={breakdownChartConfig} className="h-48 w-full">
+            <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+              <XAxis type="number" allowDecimals={false} hide />
+              <YAxis type="category" dataKey="value" tickLine={false} axisLine={false} width={110} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Dashboard() {
+  const [timeframe, setTimeframe] = useState<AnalyticsTimeframe>('day');
+  const { adminKey, setAdminKey, adminHeaders } = useAdminKey();
+
+  // Analytics are admin-only, so nothing is fetched until a key is entered
+  const { data, error, isLoading, isFetching, refetch } = useQuery<AnalyticsDashboard & { success: boolean }>({
+    queryKey: [`/api/analytics/dashboard?timeframe=${timeframe}`, adminKey],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/analytics/dashboard?timeframe=${timeframe}`, undefined, adminHeaders);
+      return await res.json();
+    },
+    enabled: !!adminKey,
+    refetchInterval: REFRESH_INTERVAL_MS
+  });
+
+  const timeseries = (data?.timeseries || []).map(point => ({
+    ...point,
+    label: formatBucket(point.bucket, timeframe)
+  }));
+
+  const latency = data ? [
+    { percentile: 'avg', value: data.stats.averageResponseTime },
+    { percentile: 'p50', value: data.stats.p50ResponseTime },
+    { percentile: 'p95', value: data.stats.p95ResponseTime },
+    { percentile: 'p99', value: data.stats.p99ResponseTime }
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">Analytics</h2>
+            <p className="text-sm text-muted-foreground">Request volume, latency and cache efficiency</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="password"
+              value={adminKey}
+              placeholder="Admin key"
+              className="w-48 font-mono text-sm"
+              onChange={(e) => setAdminKey(e.target.value.trim())}
+              data-testid="input-dashboard-admin-key"
+            />
+            <Select value={timeframe} onValueChange={(value) => setTimeframe(value as AnalyticsTimeframe)}>
+              <SelectTrigger className="w-36" data-testid="select-timeframe">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hour">Last hour</SelectItem>
+                <SelectItem value="day">Last 24 hours</SelectItem>
+                <SelectItem value="week">Last 7 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={!adminKey || isFetching}
+              data-testid="button-refresh-dashboard"
+            >
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {!adminKey ? (
+          <p className="text-sm text-muted-foreground text-center py-16">
+            Enter ADMIN_API_KEY or an admin-scoped key to view analytics
+          </p>
+        ) : error ? (
+          <p className="text-sm text-destructive text-center py-16">{error.message}</p>
+        ) : isLoading || !data ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                title="Requests"
+                value={data.stats.totalRequests.toLocaleString()}
+                description={`${data.stats.successfulRequests.toLocaleString()} successful`}
+              />
+              <StatCard
+                title="Success rate"
+                value={formatPercent(data.stats.totalRequests > 0 ? 100 - data.stats.errorRate : 0)}
+                description={`${formatPercent(data.stats.errorRate)} errors`}
+              />
+              <StatCard
+                title="p95 latency"
+                value={`${Math.round(data.stats.p95ResponseTime)} ms`}
+                description={`p50 ${Math.round(data.stats.p50ResponseTime)} ms · p99 ${Math.round(data.stats.p99ResponseTime)} ms`}
+              />
+              <StatCard
+                title="Cache hit ratio"
+                value={formatPercent(data.cache.hitRatio * 100)}
+                description={`${data.cache.hits} hits · ${data.cache.misses} misses`}
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Request volume</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={volumeChartConfig} className="h-64 w-full">
+                  <AreaChart data={timeseries}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area
+                      dataKey="successful"
+                      type="monotone"
+                      stackId="requests"
+                      fill="var(--color-successful)"
+                      stroke="var(--color-successful)"
+                      fillOpacity={0.4}
+                    />
+                    <Area
+                      dataKey="failed"
+                      type="monotone"
+                      stackId="requests"
+                      fill="var(--color-failed)"
+                      stroke="var(--color-failed)"
+                      fillOpacity={0.4}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Latency percentiles</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={latencyChartConfig} className="h-48 w-full">
+                    <BarChart data={latency}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="percentile" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                      <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <BreakdownChart title="Top languages" data={data.topLanguages} />
+              <BreakdownChart title="Top models" data={data.topModels} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cache</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Progress value={data.cache.hitRatio * 100} data-testid="progress-cache-hit-ratio" />
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Hits</span>
+                    <span className="font-mono">{data.cache.hits}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Misses</span>
+                    <span className="font-mono">{data.cache.misses}</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Recent failures</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-56 rounded border border-border">
+                    {data.recentFailures.length === 0 ? (
+                      <p className="p-4 text-sm text-muted-foreground text-center">No failed requests</p>
+                    ) : (
+                      <ul className="divide-y divide-border">
+                        {data.recentFailures.map(log => (
+                          <li key={log.id} className="p-2 text-xs space-y-1" data-testid={`failure-${log.id}`}>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="destructive" className="text-[10px]">{log.statusCode}</Badge>
+                              <span className="font-mono">{log.method} {log.endpoint}</span>
+                              {log.videoId && <span className="font-mono text-muted-foreground">{log.videoId}</span>}
+                              <span className="ml-auto text-muted-foreground">
+                                {log.createdAt ? new Date(log.createdAt).toLocaleString() : ''}
+                              </span>
+                            </div>
+                            {log.errorMessage && (
+                              <p className="text-muted-foreground truncate" title={log.errorMessage}>{log.errorMessage}</p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
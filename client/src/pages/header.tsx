@@ -1,10 +1,12 @@
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useTheme } from "@/hooks/use-theme";
-import { Moon, Sun, Home } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Moon, Sun, Home, BarChart3, TestTube, History, LogIn, LogOut } from "lucide-react";
 
 export default function Header() {
   const { theme, toggleTheme } = useTheme();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <header className="bg-card border-b border-border shadow-sm">
@@ -34,6 +36,46 @@ export default function Header() {
                 Home
               </Button>
             </Link>
+            <Link href="/api-tester">
+              <Button variant="ghost" size="sm" data-testid="link-api-tester">
+                <TestTube className="w-4 h-4 mr-2" />
+                Tester
+              </Button>
+            </Link>
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm" data-testid="link-dashboard">
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Dashboard
+              </Button>
+            </Link>
+            {user ? (
+              <>
+                <Link href="/history">
+                  <Button variant="ghost" size="sm" data-testid="link-history">
+                    <History className="w-4 h-4 mr-2" />
+                    History
+                  </Button>
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title={`Signed in as ${user.username}`}
+                  data-testid="button-logout"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  {user.username}
+                </Button>
+              </>
+            ) : (
+              <Link href="/auth">
+                <Button variant="ghost" size="sm" data-testid="link-sign-in">
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Sign in
+                </Button>
+              </Link>
+            )}
             <Button 
               variant="ghost" 
               size="sm"
@@ -0,0 +1,107 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import Header from "./header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ExternalLink, Loader2, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { HistoryEntry } from "@shared/schema";
+
+interface HistoryResponse {
+  success: boolean;
+  history: HistoryEntry[];
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  failed: "destructive",
+  pending: "outline",
+  processing: "secondary"
+};
+
+export default function History() {
+  const { user, isLoading: isUserLoading } = useAuth();
+
+  const { data, isLoading, isFetching, refetch } = useQuery<HistoryResponse>({
+    queryKey: ['/api/history'],
+    enabled: !!user
+  });
+
+  const history = data?.history || [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">History</h2>
+            <p className="text-sm text-muted-foreground">Videos you processed, newest first</p>
+          </div>
+          {user && (
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-history">
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          )}
+        </div>
+
+        {isUserLoading || (user && isLoading) ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : !user ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign in required</CardTitle>
+              <CardDescription>History is kept per account</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/auth">
+                <Button data-testid="link-sign-in">Sign in</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : history.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Nothing processed yet. Videos you build in the tester show up here.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {history.map(entry => (
+              <Card key={`${entry.source}-${entry.jobId || entry.videoId}-${entry.createdAt}`} data-testid={`history-entry-${entry.videoId}`}>
+                <CardContent className="py-4 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <a
+                      href={`https://www.youtube.com/watch?v=${entry.videoId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-sm text-primary hover:underline inline-flex items-center"
+                    >
+                      {entry.videoId}
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </a>
+                    <Badge variant={STATUS_VARIANTS[entry.status] || "outline"}>{entry.status}</Badge>
+                    <Badge variant="secondary">{entry.source === 'job' ? 'async job' : 'build'}</Badge>
+                    {entry.language && <Badge variant="outline">{entry.language}</Badge>}
+                    {entry.model && <Badge variant="outline">{entry.model}</Badge>}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {entry.tldr && (
+                    <p className="text-sm text-muted-foreground line-clamp-3">{entry.tldr}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, TestTube, Github, Zap } from "lucide-react";
+import { Play, TestTube, Github, Zap, BarChart3 } from "lucide-react";
 
 export default function Home() {
   return (
@@ -62,6 +62,12 @@ export default function Home() {
                 API Tester
               </Button>
             </Link>
+            <Link href="/dashboard">
+              <Button variant="secondary" size="lg" className="px-8">
+                <BarChart3 className="w-5 h-5 mr-2" />
+                Dashboard
+              </Button>
+            </Link>
             <Button variant="outline" size="lg" asChild>
               <a 
                 href="https://github.com/pipa0309/YouTube-chapters-and-TLDT-without-downloading" 
@@ -12,6 +12,7 @@ interface TranscriptTest {
   method: string;
   status: 'pending' | 'success' | 'error' | 'warning';
   message: string;
+  duration?: number;
   details?: any;
 }
 
@@ -175,7 +176,12 @@ export default function YouTubeTester() {
                           <div className="text-sm text-muted-foreground">{test.message}</div>
                         </div>
                       </div>
-                      {getStatusBadge(test.status)}
+                      <div className="flex items-center space-x-2">
+                        {test.duration !== undefined && (
+                          <span className="text-xs text-muted-foreground font-mono">{test.duration}ms</span>
+                        )}
+                        {getStatusBadge(test.status)}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,92 @@
+CREATE TABLE `api_logs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`video_id` text,
+	`endpoint` text NOT NULL,
+	`method` text NOT NULL,
+	`status_code` integer NOT NULL,
+	`language` text,
+	`model` text,
+	`cache_hit` integer,
+	`response_time` integer,
+	`user_agent` text,
+	`ip_address` text,
+	`error_message` text,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `audio_uploads` (
+	`id` text PRIMARY KEY NOT NULL,
+	`file_name` text NOT NULL,
+	`original_name` text NOT NULL,
+	`file_path` text NOT NULL,
+	`file_size` integer NOT NULL,
+	`mime_type` text NOT NULL,
+	`status` text DEFAULT 'uploaded' NOT NULL,
+	`transcript_text` text,
+	`detected_language` text,
+	`processing_time` integer,
+	`error_message` text,
+	`created_at` integer,
+	`processed_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `batch_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`total_items` integer NOT NULL,
+	`processed_items` integer DEFAULT 0,
+	`successful_items` integer DEFAULT 0,
+	`failed_items` integer DEFAULT 0,
+	`results` text,
+	`created_at` integer,
+	`started_at` integer,
+	`completed_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `cache_entries` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text NOT NULL,
+	`size_bytes` integer DEFAULT 0 NOT NULL,
+	`hits` integer DEFAULT 0 NOT NULL,
+	`created_at` integer,
+	`stale_at` integer,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `processing_metrics` (
+	`id` text PRIMARY KEY NOT NULL,
+	`date` integer NOT NULL,
+	`processing_type` text NOT NULL,
+	`total_requests` integer DEFAULT 0,
+	`successful_requests` integer DEFAULT 0,
+	`failed_requests` integer DEFAULT 0,
+	`avg_response_time` integer DEFAULT 0,
+	`top_language` text,
+	`top_model` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `processing_metrics_date_type_idx` ON `processing_metrics` (`date`,`processing_type`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+CREATE TABLE `video_processing_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`video_id` text NOT NULL,
+	`video_url` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`tldr` text,
+	`chapters` text,
+	`model` text NOT NULL,
+	`language` text DEFAULT 'ru' NOT NULL,
+	`transcript_length` integer,
+	`response_time` integer,
+	`error_message` text,
+	`created_at` integer,
+	`completed_at` integer
+);
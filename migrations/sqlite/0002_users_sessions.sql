@@ -0,0 +1,8 @@
+CREATE TABLE `sessions` (
+	`sid` text PRIMARY KEY NOT NULL,
+	`sess` text NOT NULL,
+	`expire` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `api_logs` ADD `user_id` text;--> statement-breakpoint
+ALTER TABLE `video_processing_jobs` ADD `user_id` text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `rate_limit_buckets` (
+	`key` text PRIMARY KEY NOT NULL,
+	`tokens` real NOT NULL,
+	`updated_at` integer NOT NULL,
+	`expires_at` integer NOT NULL
+);
@@ -0,0 +1,7 @@
+ALTER TABLE `api_logs` ADD `prompt_tokens` integer;--> statement-breakpoint
+ALTER TABLE `api_logs` ADD `completion_tokens` integer;--> statement-breakpoint
+ALTER TABLE `api_logs` ADD `cost_usd` real;--> statement-breakpoint
+ALTER TABLE `video_processing_jobs` ADD `api_key_id` text;--> statement-breakpoint
+ALTER TABLE `video_processing_jobs` ADD `prompt_tokens` integer;--> statement-breakpoint
+ALTER TABLE `video_processing_jobs` ADD `completion_tokens` integer;--> statement-breakpoint
+ALTER TABLE `video_processing_jobs` ADD `cost_usd` real;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `audio_uploads` ADD `user_id` text;--> statement-breakpoint
+ALTER TABLE `audio_uploads` ADD `api_key_id` text;--> statement-breakpoint
+ALTER TABLE `batch_jobs` ADD `user_id` text;--> statement-breakpoint
+ALTER TABLE `batch_jobs` ADD `api_key_id` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `processing_metrics` ADD `rolled_up_at` integer;
\ No newline at end of file
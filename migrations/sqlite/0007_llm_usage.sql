@@ -0,0 +1,14 @@
+CREATE TABLE `llm_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`model` text NOT NULL,
+	`requested_model` text NOT NULL,
+	`source` text NOT NULL,
+	`video_id` text,
+	`api_key_id` text,
+	`user_id` text,
+	`prompt_tokens` integer NOT NULL,
+	`completion_tokens` integer NOT NULL,
+	`cost_usd` real NOT NULL,
+	`estimated` integer DEFAULT false NOT NULL,
+	`created_at` integer
+);
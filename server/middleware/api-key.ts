@@ -0,0 +1,91 @@
+import type { Request, RequestHandler } from "express";
+import type { ApiKey, ApiKeyScope } from "@shared/schema";
+import { apiKeyService } from "../services/api-keys";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireApiKey when the caller presented a valid key
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Anonymous calls are rejected when set; defaults to on in production only so the bundled
+// tester keeps working in development
+export const API_KEYS_REQUIRED = process.env.API_KEYS_REQUIRED
+  ? process.env.API_KEYS_REQUIRED === 'true'
+  : process.env.NODE_ENV === 'production';
+
+interface RequireApiKeyOptions {
+  // Demand a key even when API_KEYS_REQUIRED is off
+  always?: boolean;
+}
+
+/**
+ * Read the secret from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function readApiKey(req: Request): string | undefined {
+  const authorization = req.get('authorization');
+  if (authorization && /^bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^bearer\s+/i, '').trim() || undefined;
+  }
+  return req.get('x-api-key')?.trim() || undefined;
+}
+
+/**
+ * Authenticate the caller's API key, check it grants scope, and reserve one of its daily
+ * requests before the handler runs. Requests a later rateLimit() rejects with 429 get their
+ * slot back. A key that is presented is always validated, even when keys are optional.
+ * A signed-in session stands in for a key on every scope but admin; ADMIN_API_KEY is accepted
+ * for the admin scope only.
+ */
+export function requireApiKey(scope: ApiKeyScope, options: RequireApiKeyOptions = {}): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const secret = readApiKey(req);
+
+      if (!secret) {
+        const signedIn = scope !== 'admin' && req.isAuthenticated();
+        if (!signedIn && (options.always || API_KEYS_REQUIRED)) {
+          return res.status(401).json({
+            success: false,
+            error: 'API key required: send it as "Authorization: Bearer <key>" or "X-API-Key: <key>"'
+          });
+        }
+        return next();
+      }
+
+      if (scope === 'admin' && apiKeyService.isAdminSecret(secret)) {
+        return next();
+      }
+
+      const apiKey = await apiKeyService.authenticate(secret);
+      if (!apiKey) {
+        return res.status(401).json({ success: false, error: 'Invalid or revoked API key' });
+      }
+
+      if (!apiKeyService.hasScope(apiKey, scope)) {
+        return res.status(403).json({ success: false, error: `API key does not grant the "${scope}" scope` });
+      }
+
+      const quota = await apiKeyService.reserveRequest(apiKey);
+      if (!quota.allowed) {
+        return res.status(429).json({ success: false, error: quota.reason });
+      }
+
+      const reservedAt = new Date();
+      res.once('close', () => {
+        if (res.statusCode !== 429) return;
+        apiKeyService.refundRequest(apiKey, reservedAt).catch(error => {
+          console.error(`[API_KEYS] Failed to refund a request for key ${apiKey.id}:`, error);
+        });
+      });
+      req.apiKey = apiKey;
+      next();
+    } catch (error) {
+      console.error('[API_KEYS] Authentication failed:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  };
+}
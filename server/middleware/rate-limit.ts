@@ -0,0 +1,64 @@
+import type { Request, RequestHandler } from "express";
+import {
+  rateLimitRules,
+  rateLimitStore,
+  type RateLimitedRoute,
+  type RateLimitStore
+} from "../services/rate-limit";
+
+interface RateLimitOptions {
+  // "client" buckets by API key, then signed-in user, then IP; "ip" always by IP (e.g. sign-in)
+  keyBy?: 'client' | 'ip';
+  store?: RateLimitStore;
+}
+
+function bucketIdentity(req: Request, keyBy: 'client' | 'ip'): string {
+  if (keyBy === 'client') {
+    if (req.apiKey) return `key:${req.apiKey.id}`;
+    if (req.user) return `user:${req.user.id}`;
+  }
+  const ipAddress = req.ip || req.connection.remoteAddress || '';
+  return `ip:${ipAddress}`;
+}
+
+/**
+ * Token-bucket limit for a route group, using the rule from rateLimitRules. Place it after
+ * requireApiKey so requests are bucketed by key. Every response carries X-RateLimit-Limit,
+ * X-RateLimit-Remaining and X-RateLimit-Reset (seconds until the bucket is full); rejected
+ * ones get 429 with Retry-After. If the store fails the request is let through.
+ */
+export function rateLimit(route: RateLimitedRoute, options: RateLimitOptions = {}): RequestHandler {
+  const rule = rateLimitRules[route];
+  const store = options.store || rateLimitStore;
+
+  return async (req, res, next) => {
+    const key = `${route}:${bucketIdentity(req, options.keyBy || 'client')}`;
+
+    let decision;
+    try {
+      decision = await store.consume(key, rule);
+    } catch (error) {
+      console.error(`[RATE_LIMIT] ${store.name} store failed for ${key}, allowing request:`, error);
+      return next();
+    }
+
+    res.set({
+      'X-RateLimit-Limit': String(decision.limit),
+      'X-RateLimit-Remaining': String(decision.remaining),
+      'X-RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000))
+    });
+
+    if (!decision.allowed) {
+      const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+      res.set('Retry-After', String(retryAfter));
+      console.warn(`[RATE_LIMIT] ${key} is over the ${route} limit, retry in ${retryAfter}s`);
+      return res.status(429).json({
+        success: false,
+        error: `Rate limit exceeded, retry in ${retryAfter}s`,
+        retryAfter
+      });
+    }
+
+    next();
+  };
+}
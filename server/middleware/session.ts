@@ -0,0 +1,113 @@
+import { randomBytes } from "crypto";
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import type { PublicUser } from "@shared/schema";
+import { storage } from "../utils/storage";
+import type { RecordOwner } from "../utils/record-owner";
+import { authService } from "../services/auth";
+
+declare global {
+  namespace Express {
+    // The signed-in user passport attaches as req.user
+    interface User extends PublicUser {}
+  }
+}
+
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_DAYS || '7', 10) * 24 * 60 * 60 * 1000;
+
+/**
+ * Express "trust proxy" setting from TRUST_PROXY: a hop count ("1"), "true", or addresses and
+ * subnets ("loopback, 10.0.0.0/8"). Unset means X-Forwarded-* headers are ignored, since a
+ * client could otherwise pick the IP that rate limits are keyed by.
+ */
+function trustProxySetting(): boolean | number | string | undefined {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (!value || value === 'false') return undefined;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error("SESSION_SECRET environment variable is required in production");
+  }
+
+  console.warn('[AUTH] SESSION_SECRET is not set; sessions will not survive a restart');
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Install cookie sessions stored in the configured storage, and passport on top of them so
+ * req.login / req.logout / req.user work in the auth routes
+ */
+export function setupSession(app: Express): void {
+  const trustProxy = trustProxySetting();
+  if (trustProxy !== undefined) {
+    app.set('trust proxy', trustProxy);
+  }
+  app.use(session({
+    secret: sessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_TTL_MS
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A user deleted since sign-in just ends the session
+      done(null, (await authService.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ success: false, error: 'Sign in required' });
+  }
+  next();
+};
+
+/**
+ * The user a request acts for: the signed-in user, otherwise the owner of its API key
+ */
+export function requestUserId(req: Request): string | undefined {
+  return req.user?.id ?? req.apiKey?.userId;
+}
+
+/**
+ * Whether the request may see a job, batch or audio upload. Ones created anonymously are open to
+ * every caller; the rest only to the key that created them, their user (signed in or through any
+ * of their keys) and admin keys.
+ */
+export function canAccess(req: Request, owner: { userId: string | null; apiKeyId: string | null }): boolean {
+  if (!owner.userId && !owner.apiKeyId) return true;
+  if (req.apiKey && (req.apiKey.id === owner.apiKeyId || req.apiKey.scopes.includes('admin'))) return true;
+
+  const userId = requestUserId(req);
+  return !!userId && userId === owner.userId;
+}
+
+/**
+ * The owner filter for listing jobs, batches or audio uploads with the same rules as canAccess;
+ * undefined for admin keys, which see everything
+ */
+export function listingOwner(req: Request): RecordOwner | undefined {
+  if (req.apiKey?.scopes.includes('admin')) return undefined;
+  return { userId: requestUserId(req), apiKeyId: req.apiKey?.id };
+}
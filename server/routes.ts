@@ -1,17 +1,143 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import multer from "multer";
 import { storage } from "./utils/storage";
 import { z } from "zod";
-import { youtubeRequestSchema } from "@shared/schema";
+import {
+  youtubeRequestSchema,
+  batchRequestSchema,
+  audioRequestSchema,
+  playlistRequestSchema,
+  analyticsQuerySchema,
+  metricsQuerySchema,
+  costReportQuerySchema,
+  buildFormatSchema,
+  createApiKeySchema,
+  createOwnApiKeySchema,
+  credentialsSchema,
+  historyQuerySchema,
+  type ProgressCallback,
+  type ChapterExportFormat,
+  type ModelInfo,
+  type YoutubeResponse
+} from "@shared/schema";
+import { parseYouTubeUrl, extractVideoId, isValidVideoId } from "@shared/youtube-url";
+import { exportChapters } from "@shared/chapter-export";
 import { YouTubeService } from "./services/youtube";
-import { LLMService } from "./services/llm";
-import { CacheService } from "./services/cache";
+import { VideoProcessingService } from "./services/processing";
+import { cacheService, CACHE_TIER_TTL_SECONDS, RESPONSE_SOFT_TTL_SECONDS } from "./services/cache";
 import { AnalyticsService } from "./services/analytics";
-import { retryOperation } from "./utils/retry";
+import { jobQueue } from "./services/jobs";
+import { batchProcessor } from "./services/batch";
+import { metricsRollup } from "./services/metrics";
+import { costReports } from "./services/costs";
+import { apiKeyService, UnknownUserError } from "./services/api-keys";
+import { authService, UsernameTakenError } from "./services/auth";
+import { historyService } from "./services/history";
+import { requireApiKey } from "./middleware/api-key";
+import { setupSession, requireUser, requestUserId, canAccess, listingOwner } from "./middleware/session";
+import { rateLimit } from "./middleware/rate-limit";
+import { AudioProcessingService } from "./services/audio";
+import { modelRegistry, ModelNotAvailableError } from "./services/llm-providers";
+import { usageColumns, type UsageAttribution } from "./services/llm";
+import { SingleFlight } from "./utils/single-flight";
+
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+const MAX_AUDIO_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const audioUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+      cb(null, UPLOAD_DIR);
+    },
+    filename: (_req, file, cb) => cb(null, `${randomUUID()}${path.extname(file.originalname)}`)
+  }),
+  limits: { fileSize: MAX_AUDIO_UPLOAD_BYTES },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/')) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file type: ${file.mimetype}`));
+    }
+  }
+});
+
+/**
+ * Delete an uploaded file that no audioUploads row will point at
+ */
+function discardUpload(filePath: string) {
+  fs.promises.unlink(filePath)
+    .catch(error => console.warn(`[AUDIO] Failed to delete rejected upload ${filePath}:`, error));
+}
+
+// Concurrent identical builds share one pipeline run, keyed on the response cache key
+const buildFlights = new SingleFlight<YoutubeResponse, Parameters<ProgressCallback>[0]>();
+
+/**
+ * Run the video pipeline and cache a successful result, joining an identical build already in flight
+ */
+function buildVideo(
+  cacheKey: string,
+  videoId: string,
+  params: { lang: string; model: string },
+  attribution: UsageAttribution,
+  onProgress?: ProgressCallback
+) {
+  return buildFlights.run(cacheKey, async (publish) => {
+    const result = await new VideoProcessingService().processVideo(videoId, {
+      lang: params.lang,
+      model: params.model,
+      attribution,
+      onProgress: publish
+    });
+
+    if (result.success) {
+      await cacheService.set(cacheKey, result, CACHE_TIER_TTL_SECONDS.response, RESPONSE_SOFT_TTL_SECONDS);
+    }
+    return result;
+  }, onProgress);
+}
+
+/**
+ * Regenerate a stale cached response without making the caller wait. The caller was served from
+ * cache, so the refresh's LLM spend is recorded without their key or user.
+ */
+function refreshInBackground(cacheKey: string, videoId: string, params: { lang: string; model: string }) {
+  console.log(`[CACHE] Refreshing stale entry ${cacheKey}`);
+  buildVideo(cacheKey, videoId, params, { source: 'refresh' })
+    .catch(error => console.error(`[CACHE] Background refresh of ${cacheKey} failed:`, error));
+}
+
+/**
+ * Send a /api/build result as JSON or, when a chapter export format was requested, as that text
+ */
+function sendBuildResponse(res: Response, response: YoutubeResponse, format: ChapterExportFormat | 'json') {
+  if (format === 'json') {
+    return res.json(response);
+  }
+
+  const exported = exportChapters(response, format);
+  if (!exported.ok) {
+    return res.status(400).json({
+      success: false,
+      videoId: response.videoId,
+      error: exported.message,
+      responseTime: response.responseTime
+    });
+  }
+  res.type(exported.value.contentType).send(exported.value.body);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions must be in place before any route reads req.user
+  setupSession(app);
+
   // YouTube TLDR API endpoint
-  app.get("/api/build", async (req, res) => {
+  app.get("/api/build", requireApiKey('build'), rateLimit('build'), async (req, res) => {
     const startTime = Date.now();
     const userAgent = req.headers['user-agent'] || '';
     const ipAddress = req.ip || req.connection.remoteAddress || '';
@@ -23,19 +149,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lang: req.query.lang || 'ru',
         model: req.query.model || 'gpt-5'
       });
+      const format = buildFormatSchema.parse(req.query.format || undefined);
+      modelRegistry.assertAvailable(params.model);
 
-      const videoId = extractVideoId(params.url);
-      if (!videoId) {
+      const parsedUrl = parseYouTubeUrl(params.url);
+      if (!parsedUrl.ok) {
         return res.status(400).json({
           success: false,
-          error: "Invalid YouTube URL format"
+          error: `Invalid YouTube URL format: ${parsedUrl.message}`,
+          reason: parsedUrl.reason
         });
       }
+      const videoId = parsedUrl.value.videoId;
 
       // Initialize services
-      const youtubeService = new YouTubeService();
-      const llmService = new LLMService();
-      const cacheService = new CacheService();
       const analyticsService = new AnalyticsService();
 
       // Generate cache key
@@ -43,46 +170,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check cache first (unless nocache param is set)
       if (!req.query.nocache) {
-        const cachedResult = await cacheService.get(cacheKey);
-        if (cachedResult) {
+        const cached = await cacheService.getEntry(cacheKey);
+        if (cached) {
+          if (cached.stale) {
+            refreshInBackground(cacheKey, videoId, params);
+          }
+
           await analyticsService.logRequest({
             videoId,
             endpoint: '/api/build',
             method: 'GET',
             statusCode: 200,
+            language: params.lang,
+            model: params.model,
+            cacheHit: true,
             responseTime: Date.now() - startTime,
             userAgent,
-            ipAddress
+            ipAddress,
+            apiKeyId: req.apiKey?.id,
+            userId: requestUserId(req)
           });
 
-          return res.json({
-            ...cachedResult,
+          return sendBuildResponse(res, {
+            ...cached.value,
             cached: true,
+            stale: cached.stale,
+            usage: undefined,
             responseTime: Date.now() - startTime
-          });
+          }, format);
         }
       }
 
-      // Get video metadata
-      const metadata = await retryOperation(
-        () => youtubeService.getVideoMetadata(videoId),
-        { maxRetries: 3, delay: 1000 }
-      );
-
-      // Get transcript with retry logic
-      const transcript = await retryOperation(
-        () => youtubeService.getTranscript(videoId, [params.lang, 'en']),
-        { maxRetries: 3, delay: 1000 }
-      );
+      const { value: result, shared } = await buildVideo(cacheKey, videoId, params, {
+        source: 'build',
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
+      });
+      // Joiners of a coalesced build didn't cause any LLM spend of their own
+      const spent = shared ? undefined : result.usage;
 
-      if (!transcript.text || transcript.text.length < 50) {
+      if (!result.success) {
         const errorResponse = {
-          success: false,
-          videoId,
-          videoTitle: metadata?.title || null,
-          error: `No transcript available. Reason: ${transcript.reason || 'unknown'}`,
-          responseTime: Date.now() - startTime,
-          transcriptLength: 0
+          ...result,
+          coalesced: shared,
+          responseTime: Date.now() - startTime
         };
 
         await analyticsService.logRequest({
@@ -90,54 +221,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
           endpoint: '/api/build',
           method: 'GET',
           statusCode: 400,
-          responseTime: Date.now() - startTime,
+          language: params.lang,
+          model: params.model,
+          cacheHit: false,
+          ...usageColumns(spent),
+          responseTime: errorResponse.responseTime,
           userAgent,
           ipAddress,
+          apiKeyId: req.apiKey?.id,
+          userId: requestUserId(req),
           errorMessage: errorResponse.error
         });
 
         return res.status(400).json(errorResponse);
       }
 
-      // Generate TLDR and chapters using LLM
-      const llmResult = await retryOperation(
-        () => llmService.generateTLDRAndChapters(transcript.text, params.lang, params.model),
-        { maxRetries: 2, delay: 2000 }
-      );
-
       const response = {
-        success: true,
-        videoId,
-        videoTitle: metadata?.title || null,
-        tldr: llmResult.tldr,
-        chapters: llmResult.chapters,
-        model: params.model,
-        processedAt: new Date().toISOString(),
-        responseTime: Date.now() - startTime,
-        transcriptLength: transcript.text.length
+        ...result,
+        coalesced: shared,
+        responseTime: Date.now() - startTime
       };
 
-      // Cache the result
-      await cacheService.set(cacheKey, response, 3600); // Cache for 1 hour
-
       // Log successful request
       await analyticsService.logRequest({
         videoId,
         endpoint: '/api/build',
         method: 'GET',
         statusCode: 200,
+        language: params.lang,
+        model: params.model,
+        cacheHit: false,
+        ...usageColumns(spent),
         responseTime: response.responseTime,
         userAgent,
-        ipAddress
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
       });
 
-      res.json(response);
+      sendBuildResponse(res, response, format);
 
     } catch (error) {
       console.error('API Error:', error);
       
       const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
 
       await storage.createApiLog({
         videoId: req.query.url ? extractVideoId(req.query.url as string) : null,
@@ -147,6 +275,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         responseTime: Date.now() - startTime,
         userAgent,
         ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
         errorMessage
       });
 
@@ -158,36 +288,1166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Health check endpoint
-  app.get("/api/health", (req, res) => {
-    res.json({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime()
+  // Streaming variant of /api/build - reports pipeline progress as Server-Sent Events
+  app.get("/api/build/stream", requireApiKey('build'), rateLimit('build'), async (req, res) => {
+    const startTime = Date.now();
+    const userAgent = req.headers['user-agent'] || '';
+    const ipAddress = req.ip || req.connection.remoteAddress || '';
+
+    // Stop writing events once the client disconnects; the pipeline still finishes and caches
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
     });
+
+    const send: ProgressCallback = (event) => {
+      if (closed) return;
+      res.write(`data: ${JSON.stringify({ ...event, timestamp: new Date().toISOString() })}\n\n`);
+    };
+
+    const analyticsService = new AnalyticsService();
+    let videoId: string | null = null;
+
+    try {
+      const params = youtubeRequestSchema.parse({
+        url: req.query.url,
+        lang: req.query.lang || 'ru',
+        model: req.query.model || 'gpt-5'
+      });
+      modelRegistry.assertAvailable(params.model);
+
+      const parsedUrl = parseYouTubeUrl(params.url);
+      if (!parsedUrl.ok) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid YouTube URL format: ${parsedUrl.message}`,
+          reason: parsedUrl.reason
+        });
+      }
+      videoId = parsedUrl.value.videoId;
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+
+      const cacheKey = await cacheService.generateCacheKey(videoId, params.lang, params.model);
+
+      if (!req.query.nocache) {
+        const cached = await cacheService.getEntry(cacheKey);
+        if (cached) {
+          if (cached.stale) {
+            refreshInBackground(cacheKey, videoId, params);
+          }
+
+          send({
+            type: 'result',
+            status: 'succeeded',
+            message: cached.stale ? 'Served stale result from cache, refreshing in the background' : 'Served from cache',
+            data: { ...cached.value, cached: true, stale: cached.stale, usage: undefined, responseTime: Date.now() - startTime }
+          });
+
+          await analyticsService.logRequest({
+            videoId,
+            endpoint: '/api/build/stream',
+            method: 'GET',
+            statusCode: 200,
+            language: params.lang,
+            model: params.model,
+            cacheHit: true,
+            responseTime: Date.now() - startTime,
+            userAgent,
+            ipAddress,
+            apiKeyId: req.apiKey?.id,
+            userId: requestUserId(req)
+          });
+
+          return res.end();
+        }
+      }
+
+      const { value: result, shared } = await buildVideo(cacheKey, videoId, params, {
+        source: 'build',
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
+      }, send);
+      // Joiners of a coalesced build didn't cause any LLM spend of their own
+      const spent = shared ? undefined : result.usage;
+      const response = { ...result, coalesced: shared, responseTime: Date.now() - startTime };
+
+      send({
+        type: 'result',
+        status: response.success ? 'succeeded' : 'failed',
+        message: response.success ? 'Processing complete' : response.error || 'Processing failed',
+        data: response
+      });
+
+      await analyticsService.logRequest({
+        videoId,
+        endpoint: '/api/build/stream',
+        method: 'GET',
+        statusCode: response.success ? 200 : 400,
+        language: params.lang,
+        model: params.model,
+        cacheHit: false,
+        ...usageColumns(spent),
+        responseTime: response.responseTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage: response.error
+      });
+
+      res.end();
+    } catch (error) {
+      console.error('Stream API Error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
+
+      await analyticsService.logRequest({
+        videoId,
+        endpoint: '/api/build/stream',
+        method: 'GET',
+        statusCode,
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage
+      });
+
+      if (!res.headersSent) {
+        return res.status(statusCode).json({
+          success: false,
+          error: statusCode === 400 ? errorMessage : 'Internal server error',
+          responseTime: Date.now() - startTime
+        });
+      }
+
+      send({
+        type: 'failure',
+        status: 'failed',
+        message: 'Internal server error',
+        data: { success: false, error: 'Internal server error', responseTime: Date.now() - startTime }
+      });
+      res.end();
+    }
   });
 
+  // Enqueue an asynchronous processing job
+  app.post("/api/jobs", requireApiKey('build'), rateLimit('build'), async (req, res) => {
+    try {
+      const params = youtubeRequestSchema.parse({
+        url: req.body?.url,
+        lang: req.body?.lang || 'ru',
+        model: req.body?.model || 'gpt-5'
+      });
+      modelRegistry.assertAvailable(params.model);
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+      const parsedUrl = parseYouTubeUrl(params.url);
+      if (!parsedUrl.ok) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid YouTube URL format: ${parsedUrl.message}`,
+          reason: parsedUrl.reason
+        });
+      }
+      const videoId = parsedUrl.value.videoId;
 
-function extractVideoId(url: string): string | null {
-  try {
-    const urlObj = new URL(url);
-    
-    // Handle youtu.be format
-    if (urlObj.hostname === 'youtu.be') {
-      return urlObj.pathname.slice(1);
-    }
-    
-    // Handle youtube.com format
-    if (urlObj.hostname.includes('youtube.com')) {
-      return urlObj.searchParams.get('v');
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
+      const job = await jobQueue.enqueue({
+        videoId,
+        videoUrl: params.url,
+        lang: params.lang,
+        model: params.model,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
+      });
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`
+      });
+    } catch (error) {
+      console.error('Job enqueue error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? errorMessage : 'Internal server error'
+      });
+    }
+  });
+
+  // Poll the status of an asynchronous processing job
+  app.get("/api/jobs/:id", requireApiKey('build'), async (req, res) => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+      if (!job || !canAccess(req, job)) {
+        return res.status(404).json({
+          success: false,
+          error: "Job not found"
+        });
+      }
+
+      res.json({
+        success: true,
+        job
+      });
+    } catch (error) {
+      console.error('Job status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Summarize every video of a playlist or channel plus the collection as a whole
+  app.get("/api/playlist", requireApiKey('playlist'), rateLimit('playlist'), async (req, res) => {
+    const startTime = Date.now();
+    const userAgent = req.headers['user-agent'] || '';
+    const ipAddress = req.ip || req.connection.remoteAddress || '';
+    const analyticsService = new AnalyticsService();
+
+    try {
+      const params = playlistRequestSchema.parse({
+        url: req.query.url,
+        lang: req.query.lang || 'ru',
+        model: req.query.model || 'gpt-5',
+        limit: req.query.limit
+      });
+      modelRegistry.assertAvailable(params.model);
+
+      const youtubeService = new YouTubeService();
+      if (!youtubeService.parseCollectionUrl(params.url)) {
+        return res.status(400).json({
+          success: false,
+          error: "URL is not a YouTube playlist or channel"
+        });
+      }
+
+      const processingService = new VideoProcessingService();
+      const result = await processingService.processCollection(params.url, {
+        lang: params.lang,
+        model: params.model,
+        maxVideos: params.limit,
+        concurrency: parseInt(process.env.BATCH_CONCURRENCY || '3', 10),
+        attribution: { source: 'playlist', apiKeyId: req.apiKey?.id, userId: requestUserId(req) }
+      });
+
+      const statusCode = result.success ? 200 : 400;
+
+      await analyticsService.logRequest({
+        endpoint: '/api/playlist',
+        method: 'GET',
+        statusCode,
+        language: params.lang,
+        model: params.model,
+        ...usageColumns(result.usage),
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage: result.error
+      });
+
+      res.status(statusCode).json({
+        ...result,
+        responseTime: Date.now() - startTime
+      });
+    } catch (error) {
+      console.error('Playlist API Error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
+
+      await analyticsService.logRequest({
+        endpoint: '/api/playlist',
+        method: 'GET',
+        statusCode,
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage
+      });
+
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? errorMessage : 'Internal server error',
+        responseTime: Date.now() - startTime
+      });
+    }
+  });
+
+  // Start a batch of videos processed in the background
+  app.post("/api/batches", requireApiKey('batch'), rateLimit('batch'), async (req, res) => {
+    try {
+      const params = batchRequestSchema.parse(req.body);
+      modelRegistry.assertAvailable(params.model);
+
+      let items = (params.urls || []).map(url => ({ url, videoId: extractVideoId(url) }));
+      let name = params.name || `Batch of ${items.length} videos`;
+
+      if (params.playlist) {
+        const youtubeService = new YouTubeService();
+        if (!youtubeService.parseCollectionUrl(params.playlist)) {
+          return res.status(400).json({
+            success: false,
+            error: "URL is not a YouTube playlist or channel"
+          });
+        }
+
+        const collection = await youtubeService.getVideoCollection(params.playlist, 100);
+        items = items.concat(collection.videoIds.map(videoId => ({
+          url: `https://www.youtube.com/watch?v=${videoId}`,
+          videoId
+        })));
+        name = params.name || collection.title || `Playlist batch of ${items.length} videos`;
+      }
+
+      if (items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "No videos to process"
+        });
+      }
+
+      const batch = await batchProcessor.startBatch({
+        name,
+        items,
+        lang: params.lang,
+        model: params.model,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
+      });
+
+      res.status(202).json({
+        success: true,
+        batchId: batch.id,
+        status: batch.status,
+        totalItems: batch.totalItems,
+        statusUrl: `/api/batches/${batch.id}`
+      });
+    } catch (error) {
+      console.error('Batch create error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? errorMessage : 'Internal server error'
+      });
+    }
+  });
+
+  app.get("/api/batches", requireApiKey('batch'), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const batches = await batchProcessor.listBatches(limit, listingOwner(req));
+      res.json({
+        success: true,
+        batches: batches.map(({ results, ...batch }) => batch)
+      });
+    } catch (error) {
+      console.error('Batch list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.get("/api/batches/:id", requireApiKey('batch'), async (req, res) => {
+    try {
+      const batch = await batchProcessor.getBatch(req.params.id);
+      if (!batch || !canAccess(req, batch)) {
+        return res.status(404).json({
+          success: false,
+          error: "Batch not found"
+        });
+      }
+
+      res.json({
+        success: true,
+        batch
+      });
+    } catch (error) {
+      console.error('Batch status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.post("/api/batches/:id/cancel", requireApiKey('batch'), async (req, res) => {
+    try {
+      const existing = await batchProcessor.getBatch(req.params.id);
+      if (!existing || !canAccess(req, existing)) {
+        return res.status(404).json({
+          success: false,
+          error: "Batch not found"
+        });
+      }
+
+      const batch = await batchProcessor.cancelBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({
+          success: false,
+          error: "Batch not found"
+        });
+      }
+
+      res.json({
+        success: true,
+        batch
+      });
+    } catch (error) {
+      console.error('Batch cancel error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Download per-item batch results as JSON (default) or CSV
+  app.get("/api/batches/:id/results", requireApiKey('batch'), async (req, res) => {
+    try {
+      const batch = await batchProcessor.getBatch(req.params.id);
+      if (!batch || !canAccess(req, batch)) {
+        return res.status(404).json({
+          success: false,
+          error: "Batch not found"
+        });
+      }
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="batch-${batch.id}.csv"`);
+        return res.send(batchProcessor.formatResultsCsv(batch));
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="batch-${batch.id}.json"`);
+      res.json({
+        batchId: batch.id,
+        name: batch.name,
+        status: batch.status,
+        results: batch.results || []
+      });
+    } catch (error) {
+      console.error('Batch results error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Upload an audio file, transcribe it and generate TLDR and chapters
+  app.post("/api/audio", requireApiKey('audio'), rateLimit('audio'), (req, res, next) => {
+    audioUpload.single('file')(req, res, (err: unknown) => {
+      if (err) {
+        return res.status(400).json({
+          success: false,
+          error: err instanceof Error ? err.message : 'Upload failed'
+        });
+      }
+      next();
+    });
+  }, async (req, res) => {
+    const startTime = Date.now();
+    const userAgent = req.headers['user-agent'] || '';
+    const ipAddress = req.ip || req.connection.remoteAddress || '';
+    const analyticsService = new AnalyticsService();
+    // Until the upload is recorded, every exit has to delete the file multer saved
+    let recorded = false;
+
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: "Missing audio file (multipart field \"file\")"
+        });
+      }
+
+      const params = audioRequestSchema.parse({
+        lang: req.body?.lang || 'ru',
+        model: req.body?.model || 'gpt-5'
+      });
+      modelRegistry.assertAvailable(params.model);
+
+      const upload = await storage.createAudioUpload({
+        fileName: req.file.filename,
+        originalName: req.file.originalname,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        mimeType: req.file.mimetype,
+        userId: requestUserId(req),
+        apiKeyId: req.apiKey?.id,
+        status: 'uploaded'
+      });
+      recorded = true;
+
+      const audioService = new AudioProcessingService();
+      const result = await audioService.processUpload(upload, params);
+      const statusCode = result.success ? 200 : 400;
+
+      await analyticsService.logRequest({
+        endpoint: '/api/audio',
+        method: 'POST',
+        statusCode,
+        language: params.lang,
+        model: params.model,
+        ...usageColumns(result.usage),
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage: result.error
+      });
+
+      res.status(statusCode).json({
+        ...result,
+        responseTime: Date.now() - startTime
+      });
+    } catch (error) {
+      console.error('Audio API Error:', error);
+      if (req.file && !recorded) {
+        discardUpload(req.file.path);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      const statusCode = error instanceof z.ZodError || error instanceof ModelNotAvailableError ? 400 : 500;
+
+      await analyticsService.logRequest({
+        endpoint: '/api/audio',
+        method: 'POST',
+        statusCode,
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage
+      });
+
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? errorMessage : 'Internal server error',
+        responseTime: Date.now() - startTime
+      });
+    }
+  });
+
+  app.get("/api/audio", requireApiKey('audio'), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const uploads = await storage.getAudioUploads(limit, listingOwner(req));
+      res.json({
+        success: true,
+        uploads: uploads.map(({ transcriptText, filePath, ...upload }) => upload)
+      });
+    } catch (error) {
+      console.error('Audio list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.get("/api/audio/:id", requireApiKey('audio'), async (req, res) => {
+    try {
+      const upload = await storage.getAudioUpload(req.params.id);
+      if (!upload || !canAccess(req, upload)) {
+        return res.status(404).json({
+          success: false,
+          error: "Audio upload not found"
+        });
+      }
+
+      const { filePath, ...publicUpload } = upload;
+      res.json({
+        success: true,
+        upload: publicUpload
+      });
+    } catch (error) {
+      console.error('Audio status error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Transcript diagnostics endpoint - runs every transcript method separately
+  app.get("/api/test-transcript", requireApiKey('build'), async (req, res) => {
+    const startTime = Date.now();
+    const userAgent = req.headers['user-agent'] || '';
+    const ipAddress = req.ip || req.connection.remoteAddress || '';
+
+    const parsedUrl = parseYouTubeUrl(typeof req.query.url === 'string' ? req.query.url : '');
+    if (!parsedUrl.ok) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid YouTube URL format: ${parsedUrl.message}`,
+        reason: parsedUrl.reason
+      });
+    }
+    const videoId = parsedUrl.value.videoId;
+
+    const lang = typeof req.query.lang === 'string' ? req.query.lang : 'ru';
+    const analyticsService = new AnalyticsService();
+
+    try {
+      const youtubeService = new YouTubeService();
+      const metadata = await youtubeService.getVideoMetadata(videoId);
+      const report = await youtubeService.testTranscriptMethods(videoId, [lang, 'en']);
+
+      await analyticsService.logRequest({
+        videoId,
+        endpoint: '/api/test-transcript',
+        method: 'GET',
+        statusCode: 200,
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req)
+      });
+
+      res.json({
+        videoId,
+        videoTitle: metadata?.title,
+        transcriptTests: report.transcriptTests,
+        finalTranscript: report.finalTranscript,
+        error: report.finalTranscript ? undefined : 'No transcript available from any method',
+        responseTime: Date.now() - startTime
+      });
+    } catch (error) {
+      console.error('Transcript test error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+      await analyticsService.logRequest({
+        videoId,
+        endpoint: '/api/test-transcript',
+        method: 'GET',
+        statusCode: 500,
+        responseTime: Date.now() - startTime,
+        userAgent,
+        ipAddress,
+        apiKeyId: req.apiKey?.id,
+        userId: requestUserId(req),
+        errorMessage
+      });
+
+      res.status(500).json({
+        videoId,
+        success: false,
+        error: errorMessage,
+        responseTime: Date.now() - startTime
+      });
+    }
+  });
+
+  // Models whose provider is configured on this server
+  app.get("/api/models", (_req, res) => {
+    res.json({
+      success: true,
+      models: modelRegistry.listAvailable().map((model): ModelInfo => ({
+        id: model.id,
+        label: model.label,
+        provider: model.provider,
+        fallbacks: model.fallbacks,
+        pricing: model.pricing
+      }))
+    });
+  });
+
+  // How many /api/build requests joined an identical build already in flight
+  app.get("/api/build/metrics", requireApiKey('admin', { always: true }), (_req, res) => {
+    res.json({
+      success: true,
+      ...buildFlights.getStats()
+    });
+  });
+
+  // Request statistics for the last hour, day or week
+  app.get("/api/analytics/stats", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const { timeframe } = analyticsQuerySchema.parse(req.query);
+      const stats = await new AnalyticsService().getStats(timeframe);
+
+      res.json({
+        success: true,
+        ...stats
+      });
+    } catch (error) {
+      console.error('Analytics stats error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 && error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  });
+
+  // Most requested videos, optionally limited to a timeframe
+  app.get("/api/analytics/top-videos", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const { limit } = analyticsQuerySchema.parse(req.query);
+      const timeframe = req.query.timeframe ? analyticsQuerySchema.shape.timeframe.parse(req.query.timeframe) : undefined;
+      const videos = await new AnalyticsService().getMostProcessedVideos(limit, timeframe);
+
+      res.json({
+        success: true,
+        timeframe: timeframe || 'all',
+        videos
+      });
+    } catch (error) {
+      console.error('Analytics top videos error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 && error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  });
+
+  // Timeseries, breakdowns and recent failures for the /dashboard page
+  app.get("/api/analytics/dashboard", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const { timeframe } = analyticsQuerySchema.parse(req.query);
+      const dashboard = await new AnalyticsService().getDashboard(timeframe);
+
+      res.json({
+        success: true,
+        ...dashboard
+      });
+    } catch (error) {
+      console.error('Analytics dashboard error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 && error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  });
+
+  // Daily processingMetrics rows, newest first
+  app.get("/api/metrics", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const { days } = metricsQuerySchema.parse(req.query);
+      const metrics = await metricsRollup.getMetrics(days);
+
+      res.json({
+        success: true,
+        days,
+        metrics
+      });
+    } catch (error) {
+      console.error('Metrics error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 && error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  });
+
+  // Run the daily rollup now instead of waiting for the scheduler
+  app.post("/api/metrics/rollup", requireApiKey('admin', { always: true }), async (_req, res) => {
+    try {
+      const days = await metricsRollup.rollup();
+      res.json({
+        success: true,
+        days
+      });
+    } catch (error) {
+      console.error('Metrics rollup error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // LLM spend from the llmUsage ledger, grouped by day, model, API key or user
+  app.get("/api/costs", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const { days, groupBy } = costReportQuerySchema.parse(req.query);
+      const report = await costReports.getReport(days, groupBy);
+
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error) {
+      console.error('Cost report error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? 'Invalid days or groupBy parameter' : 'Internal server error'
+      });
+    }
+  });
+
+  // API key management; needs an admin-scoped key or ADMIN_API_KEY even when keys are optional
+  app.post("/api/keys", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const request = createApiKeySchema.parse(req.body);
+      const { apiKey, secret } = await apiKeyService.issue(request);
+
+      // The secret is only ever shown here
+      res.status(201).json({
+        success: true,
+        apiKey,
+        key: secret
+      });
+    } catch (error) {
+      console.error('API key create error:', error);
+      const statusCode = error instanceof z.ZodError || error instanceof UnknownUserError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 && error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  });
+
+  app.get("/api/keys", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const userId = z.string().min(1).parse(req.query.userId);
+      const apiKeys = await apiKeyService.listForUser(userId);
+
+      res.json({
+        success: true,
+        apiKeys
+      });
+    } catch (error) {
+      console.error('API key list error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? 'userId query parameter is required' : 'Internal server error'
+      });
+    }
+  });
+
+  // A key with today's request and token counters
+  app.get("/api/keys/:id", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const apiKey = await apiKeyService.get(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({
+          success: false,
+          error: "API key not found"
+        });
+      }
+
+      const usage = await apiKeyService.getUsage(apiKey.id);
+      res.json({
+        success: true,
+        apiKey,
+        usage: {
+          requests: usage?.requests || 0,
+          tokens: usage?.tokens || 0
+        }
+      });
+    } catch (error) {
+      console.error('API key lookup error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/keys/:id", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const apiKey = await apiKeyService.revoke(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({
+          success: false,
+          error: "API key not found"
+        });
+      }
+
+      res.json({
+        success: true,
+        apiKey
+      });
+    } catch (error) {
+      console.error('API key revoke error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Accounts: sign-up signs the new user in; sessions live in the configured storage
+  app.post("/api/auth/signup", rateLimit('auth', { keyBy: 'ip' }), async (req, res) => {
+    try {
+      const credentials = credentialsSchema.parse(req.body);
+      const user = await authService.register(credentials);
+
+      req.login(user, (error) => {
+        if (error) {
+          console.error('Sign-in after signup failed:', error);
+          return res.status(500).json({ success: false, error: 'Internal server error' });
+        }
+        res.status(201).json({ success: true, user });
+      });
+    } catch (error) {
+      console.error('Signup error:', error);
+      if (error instanceof UsernameTakenError) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof z.ZodError ? error.errors[0].message : 'Internal server error'
+      });
+    }
+  });
+
+  app.post("/api/auth/login", rateLimit('auth', { keyBy: 'ip' }), async (req, res) => {
+    try {
+      const credentials = credentialsSchema.parse(req.body);
+      const user = await authService.verify(credentials.username, credentials.password);
+      if (!user) {
+        return res.status(401).json({ success: false, error: 'Invalid username or password' });
+      }
+
+      req.login(user, (error) => {
+        if (error) {
+          console.error('Sign-in failed:', error);
+          return res.status(500).json({ success: false, error: 'Internal server error' });
+        }
+        res.json({ success: true, user });
+      });
+    } catch (error) {
+      // Malformed credentials can't belong to an account; don't explain the format rules here
+      if (error instanceof z.ZodError) {
+        return res.status(401).json({ success: false, error: 'Invalid username or password' });
+      }
+      console.error('Login error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((error) => {
+      if (error) {
+        console.error('Logout error:', error);
+        return res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/auth/me", requireUser, (req, res) => {
+    res.json({ success: true, user: req.user });
+  });
+
+  // Videos the signed-in user processed, newest first
+  app.get("/api/history", requireUser, async (req, res) => {
+    try {
+      const { limit } = historyQuerySchema.parse(req.query);
+      const history = await historyService.getHistory(req.user!.id, limit);
+
+      res.json({
+        success: true,
+        history
+      });
+    } catch (error) {
+      console.error('History error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: statusCode === 400 ? 'Invalid limit parameter' : 'Internal server error'
+      });
+    }
+  });
+
+  // Self-service API keys for the signed-in user
+  app.get("/api/account/keys", requireUser, async (req, res) => {
+    try {
+      const apiKeys = await apiKeyService.listForUser(req.user!.id);
+      res.json({
+        success: true,
+        apiKeys
+      });
+    } catch (error) {
+      console.error('Account key list error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  });
+
+  app.post("/api/account/keys", requireUser, async (req, res) => {
+    try {
+      const request = createOwnApiKeySchema.parse(req.body);
+      const { apiKey, secret } = await apiKeyService.issue({ ...request, userId: req.user!.id });
+
+      res.status(201).json({
+        success: true,
+        apiKey,
+        key: secret
+      });
+    } catch (error) {
+      console.error('Account key create error:', error);
+      const statusCode = error instanceof z.ZodError ? 400 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof z.ZodError ? error.errors[0].message : 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/account/keys/:id", requireUser, async (req, res) => {
+    try {
+      // Someone else's key is reported as missing rather than forbidden
+      const existing = await apiKeyService.get(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({
+          success: false,
+          error: "API key not found"
+        });
+      }
+
+      const apiKey = await apiKeyService.revoke(existing.id);
+      res.json({
+        success: true,
+        apiKey
+      });
+    } catch (error) {
+      console.error('Account key revoke error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  });
+
+  // Cache administration
+  app.get("/api/cache", requireApiKey('admin', { always: true }), async (_req, res) => {
+    try {
+      const entries = await cacheService.list();
+      res.json({
+        success: true,
+        store: cacheService.storeName,
+        totalEntries: entries.length,
+        totalBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+        entries
+      });
+    } catch (error) {
+      console.error('Cache list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/cache", requireApiKey('admin', { always: true }), async (_req, res) => {
+    try {
+      await cacheService.clear();
+      console.log('[CACHE] Cleared all entries');
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Cache clear error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/cache/video/:videoId", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      if (!isValidVideoId(req.params.videoId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid video ID"
+        });
+      }
+
+      const deleted = await cacheService.purgeVideo(req.params.videoId);
+      console.log(`[CACHE] Purged ${deleted.length} entries for video ${req.params.videoId}`);
+      res.json({ success: true, deleted });
+    } catch (error) {
+      console.error('Cache purge error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/cache/model/:model", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const deleted = await cacheService.purgeModel(req.params.model);
+      console.log(`[CACHE] Purged ${deleted.length} entries for model ${req.params.model}`);
+      res.json({ success: true, deleted });
+    } catch (error) {
+      console.error('Cache purge error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  app.delete("/api/cache/:key", requireApiKey('admin', { always: true }), async (req, res) => {
+    try {
+      const deleted = await cacheService.delete(req.params.key);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: "Cache entry not found"
+        });
+      }
+
+      res.json({ success: true, deleted: [req.params.key] });
+    } catch (error) {
+      console.error('Cache delete error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Health check endpoint
+  app.get("/api/health", (req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime()
+    });
+  });
+
+
+  metricsRollup.start();
+
+  // Awaited before the server listens, so no job can be queued both here and by a request
+  await jobQueue.resume()
+    .catch(error => console.error('[JOBS] Failed to resume unfinished jobs:', error));
+  await batchProcessor.failInterrupted()
+    .catch(error => console.error('[BATCH] Failed to close interrupted batches:', error));
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
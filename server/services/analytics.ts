@@ -1,5 +1,27 @@
 import { storage } from "../utils/storage";
-import type { InsertApiLog } from "@shared/schema";
+import type {
+  AnalyticsDashboard,
+  AnalyticsTimeframe,
+  AnalyticsTimeseriesPoint,
+  ApiLogStats,
+  InsertApiLog
+} from "@shared/schema";
+
+const TIMEFRAME_MS: Record<AnalyticsTimeframe, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+// Chart resolution for each timeframe: 60 minutes, 24 hours or 7 days
+const TIMESERIES_BUCKET: Record<AnalyticsTimeframe, { unit: 'minute' | 'hour' | 'day'; ms: number }> = {
+  hour: { unit: 'minute', ms: 60 * 1000 },
+  day: { unit: 'hour', ms: 60 * 60 * 1000 },
+  week: { unit: 'day', ms: 24 * 60 * 60 * 1000 }
+};
+
+const DASHBOARD_BREAKDOWN_LIMIT = 5;
+const DASHBOARD_RECENT_FAILURES = 10;
 
 export class AnalyticsService {
   async logRequest(data: InsertApiLog): Promise<void> {
@@ -11,42 +33,96 @@ export class AnalyticsService {
     }
   }
 
-  async getStats(timeframe: 'hour' | 'day' | 'week' = 'day'): Promise<{
-    totalRequests: number;
-    successfulRequests: number;
-    errorRate: number;
-    averageResponseTime: number;
+  async getStats(timeframe: AnalyticsTimeframe = 'day'): Promise<ApiLogStats & {
+    timeframe: AnalyticsTimeframe;
+    since: string;
   }> {
+    const since = this.windowStart(timeframe);
+
     try {
-      // This would need to be implemented in the storage layer
-      // For now, return mock data
-      return {
-        totalRequests: 0,
-        successfulRequests: 0,
-        errorRate: 0,
-        averageResponseTime: 0
-      };
+      const stats = await storage.getApiLogStats(since);
+      return { ...stats, timeframe, since: since.toISOString() };
     } catch (error) {
       console.error('Failed to get analytics stats:', error);
       return {
         totalRequests: 0,
         successfulRequests: 0,
         errorRate: 0,
-        averageResponseTime: 0
+        averageResponseTime: 0,
+        p50ResponseTime: 0,
+        p95ResponseTime: 0,
+        p99ResponseTime: 0,
+        timeframe,
+        since: since.toISOString()
       };
     }
   }
 
-  async getMostProcessedVideos(limit: number = 10): Promise<Array<{
+  async getMostProcessedVideos(limit: number = 10, timeframe?: AnalyticsTimeframe): Promise<Array<{
     videoId: string;
     count: number;
   }>> {
     try {
-      // This would need to be implemented in the storage layer
-      return [];
+      return await storage.getMostRequestedVideos(limit, timeframe ? this.windowStart(timeframe) : undefined);
     } catch (error) {
       console.error('Failed to get most processed videos:', error);
       return [];
     }
   }
+
+  /**
+   * Everything the dashboard page charts, gathered in one round trip
+   */
+  async getDashboard(timeframe: AnalyticsTimeframe = 'day'): Promise<AnalyticsDashboard> {
+    const since = this.windowStart(timeframe);
+    const { unit } = TIMESERIES_BUCKET[timeframe];
+
+    const [stats, timeseries, topLanguages, topModels, cacheCounts, recentFailures] = await Promise.all([
+      this.getStats(timeframe),
+      storage.getApiLogTimeseries(since, unit),
+      storage.getApiLogBreakdown(since, 'language', DASHBOARD_BREAKDOWN_LIMIT),
+      storage.getApiLogBreakdown(since, 'model', DASHBOARD_BREAKDOWN_LIMIT),
+      storage.getCacheHitCounts(since),
+      storage.getRecentFailedApiLogs(DASHBOARD_RECENT_FAILURES)
+    ]);
+
+    const cacheLookups = cacheCounts.hits + cacheCounts.misses;
+
+    return {
+      timeframe,
+      stats,
+      timeseries: this.fillTimeseries(timeseries, since, timeframe),
+      topLanguages,
+      topModels,
+      cache: {
+        ...cacheCounts,
+        hitRatio: cacheLookups > 0 ? cacheCounts.hits / cacheLookups : 0
+      },
+      recentFailures
+    };
+  }
+
+  /**
+   * Storage only returns buckets that saw traffic; charts need the empty ones as zeros
+   */
+  private fillTimeseries(
+    points: AnalyticsTimeseriesPoint[],
+    since: Date,
+    timeframe: AnalyticsTimeframe
+  ): AnalyticsTimeseriesPoint[] {
+    const { ms } = TIMESERIES_BUCKET[timeframe];
+    const byBucket = new Map(points.map(point => [new Date(point.bucket).getTime(), point]));
+    const filled: AnalyticsTimeseriesPoint[] = [];
+
+    // Bucket boundaries are UTC-aligned, which for minute/hour/day is a multiple of ms since epoch
+    for (let time = Math.floor(since.getTime() / ms) * ms; time <= Date.now(); time += ms) {
+      const bucket = new Date(time).toISOString();
+      filled.push(byBucket.get(time) || { bucket, total: 0, successful: 0, failed: 0 });
+    }
+    return filled;
+  }
+
+  private windowStart(timeframe: AnalyticsTimeframe): Date {
+    return new Date(Date.now() - TIMEFRAME_MS[timeframe]);
+  }
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { ApiKeyService } from "./api-keys";
+import { storage } from "../utils/storage";
+
+async function keyWithLimit(username: string, dailyRequestLimit: number) {
+  const user = await storage.createUser({ username, password: "hash" });
+  return await storage.createApiKey({
+    userId: user.id,
+    name: "ci",
+    prefix: "tldr_abc",
+    keyHash: `hash-${username}`,
+    scopes: ["build"],
+    dailyRequestLimit,
+  });
+}
+
+describe("ApiKeyService.reserveRequest", () => {
+  const service = new ApiKeyService(undefined);
+
+  it("lets only as many concurrent requests through as the daily limit allows", async () => {
+    const apiKey = await keyWithLimit("concurrent", 3);
+
+    const checks = await Promise.all(Array.from({ length: 8 }, () => service.reserveRequest(apiKey)));
+
+    expect(checks.filter(check => check.allowed)).toHaveLength(3);
+    expect(await service.getUsage(apiKey.id)).toMatchObject({ requests: 3 });
+  });
+
+  it("frees a refunded slot for the next request", async () => {
+    const apiKey = await keyWithLimit("refunded", 1);
+
+    expect((await service.reserveRequest(apiKey)).allowed).toBe(true);
+    expect((await service.reserveRequest(apiKey)).allowed).toBe(false);
+
+    await service.refundRequest(apiKey);
+    expect((await service.reserveRequest(apiKey)).allowed).toBe(true);
+    expect(await service.getUsage(apiKey.id)).toMatchObject({ requests: 1 });
+  });
+});
@@ -0,0 +1,165 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../utils/storage";
+import type { ApiKey, ApiKeyInfo, ApiKeyScope, ApiKeyUsage, CreateApiKeyRequest } from "@shared/schema";
+
+const KEY_PREFIX = 'tldr_';
+
+// Characters of the secret kept in clear so owners can tell keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type QuotaCheck =
+  | { allowed: true; usage: ApiKeyUsage | undefined }
+  | { allowed: false; usage: ApiKeyUsage | undefined; reason: string };
+
+export class UnknownUserError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} not found`);
+    this.name = 'UnknownUserError';
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Issues, authenticates and meters API keys. Secrets are random 192-bit strings, so a plain
+ * SHA-256 is enough to store them safely; the secret itself is only returned once, on issue.
+ */
+export class ApiKeyService {
+  constructor(private readonly adminSecret: string | undefined = process.env.ADMIN_API_KEY) {}
+
+  async issue(request: CreateApiKeyRequest): Promise<{ apiKey: ApiKeyInfo; secret: string }> {
+    const user = await storage.getUser(request.userId);
+    if (!user) {
+      throw new UnknownUserError(request.userId);
+    }
+
+    const secret = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey = await storage.createApiKey({
+      userId: user.id,
+      name: request.name,
+      prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hash(secret),
+      scopes: request.scopes,
+      dailyRequestLimit: request.dailyRequestLimit ?? null,
+      dailyTokenLimit: request.dailyTokenLimit ?? null
+    });
+
+    console.log(`[API_KEYS] Issued key ${apiKey.prefix}… (${apiKey.id}) for user ${user.username}`);
+    return { apiKey: this.toInfo(apiKey), secret };
+  }
+
+  /**
+   * Resolve a presented secret to its key; revoked and unknown keys resolve to null
+   */
+  async authenticate(secret: string): Promise<ApiKey | null> {
+    if (!secret.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await storage.getApiKeyByHash(this.hash(secret));
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+    return apiKey;
+  }
+
+  /**
+   * Whether the secret is the ADMIN_API_KEY bootstrap credential, which manages keys without
+   * belonging to a user
+   */
+  isAdminSecret(secret: string): boolean {
+    if (!this.adminSecret) return false;
+    const presented = Buffer.from(this.hash(secret));
+    return timingSafeEqual(presented, Buffer.from(this.hash(this.adminSecret)));
+  }
+
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin');
+  }
+
+  /**
+   * Take one of today's requests for the key before it is served. The counter is incremented
+   * first and the returned total compared with the limit, so concurrent and still running
+   * requests all hold a slot; a denied request gives its slot straight back. Token usage is only
+   * known after a request completes, so the request that crosses the token limit still finishes.
+   */
+  async reserveRequest(apiKey: ApiKey, now: Date = new Date()): Promise<QuotaCheck> {
+    const [usage] = await Promise.all([
+      storage.incrementApiKeyUsage(apiKey.id, startOfUtcDay(now), 1, 0),
+      storage.updateApiKey(apiKey.id, { lastUsedAt: now })
+    ]);
+
+    let reason: string | undefined;
+    if (apiKey.dailyRequestLimit !== null && usage.requests > apiKey.dailyRequestLimit) {
+      reason = `Daily request quota of ${apiKey.dailyRequestLimit} exceeded`;
+    } else if (apiKey.dailyTokenLimit !== null && usage.tokens >= apiKey.dailyTokenLimit) {
+      reason = `Daily token quota of ${apiKey.dailyTokenLimit} exceeded`;
+    }
+
+    if (reason) {
+      return { allowed: false, usage: await this.refundRequest(apiKey, now), reason };
+    }
+    return { allowed: true, usage };
+  }
+
+  /**
+   * Give back a slot taken by reserveRequest for a request that was not served
+   */
+  async refundRequest(apiKey: ApiKey, reservedAt: Date = new Date()): Promise<ApiKeyUsage> {
+    return await storage.incrementApiKeyUsage(apiKey.id, startOfUtcDay(reservedAt), -1, 0);
+  }
+
+  /**
+   * Charge LLM tokens to a key's daily usage. Failures are logged, not thrown: the work is done.
+   */
+  async recordTokens(apiKeyId: string | undefined, tokens: number | undefined, now: Date = new Date()): Promise<void> {
+    if (!apiKeyId || !tokens) return;
+
+    try {
+      await storage.incrementApiKeyUsage(apiKeyId, startOfUtcDay(now), 0, tokens);
+    } catch (error) {
+      console.error(`[API_KEYS] Failed to record ${tokens} tokens for key ${apiKeyId}:`, error);
+    }
+  }
+
+  async listForUser(userId: string): Promise<ApiKeyInfo[]> {
+    const keys = await storage.getApiKeysByUser(userId);
+    return keys.map(key => this.toInfo(key));
+  }
+
+  async get(id: string): Promise<ApiKeyInfo | undefined> {
+    const apiKey = await storage.getApiKey(id);
+    return apiKey && this.toInfo(apiKey);
+  }
+
+  async getUsage(id: string, now: Date = new Date()): Promise<ApiKeyUsage | undefined> {
+    return await storage.getApiKeyUsage(id, startOfUtcDay(now));
+  }
+
+  /**
+   * Revoke a key; it stops authenticating immediately. Resolves undefined for unknown ids.
+   */
+  async revoke(id: string): Promise<ApiKeyInfo | undefined> {
+    const apiKey = await storage.getApiKey(id);
+    if (!apiKey) return undefined;
+    if (apiKey.revokedAt) return this.toInfo(apiKey);
+
+    console.log(`[API_KEYS] Revoked key ${apiKey.prefix}… (${apiKey.id})`);
+    return this.toInfo(await storage.updateApiKey(id, { revokedAt: new Date() }));
+  }
+
+  private toInfo(apiKey: ApiKey): ApiKeyInfo {
+    const { keyHash: _keyHash, ...info } = apiKey;
+    return info;
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
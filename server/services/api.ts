@@ -1,5 +1,6 @@
 import { apiRequest } from '@/lib/queryClient';
 import type { YoutubeResponse, YoutubeRequest } from "@shared/schema";
+import { extractVideoId, parseYouTubeUrl, type YouTubeUrlParseResult } from "@shared/youtube-url";
 
 export interface TranscriptTestResult {
   videoId: string;
@@ -8,6 +9,7 @@ export interface TranscriptTestResult {
     method: string;
     status: 'pending' | 'success' | 'error' | 'warning';
     message: string;
+    duration?: number;
     details?: any;
   }>;
   finalTranscript?: {
@@ -41,23 +43,11 @@ export class YouTubeAPI {
   }
 
   static extractVideoId(url: string): string | null {
-    try {
-      const urlObj = new URL(url);
-      
-      // Handle youtu.be format
-      if (urlObj.hostname === 'youtu.be') {
-        return urlObj.pathname.slice(1);
-      }
-      
-      // Handle youtube.com format
-      if (urlObj.hostname.includes('youtube.com')) {
-        return urlObj.searchParams.get('v');
-      }
-      
-      return null;
-    } catch {
-      return null;
-    }
+    return extractVideoId(url);
+  }
+
+  static parseUrl(url: string): YouTubeUrlParseResult {
+    return parseYouTubeUrl(url);
   }
 
   static isValidYouTubeUrl(url: string): boolean {
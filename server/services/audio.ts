@@ -0,0 +1,123 @@
+import type { AudioUpload, Chapter, TokenUsage } from "@shared/schema";
+import { storage } from "../utils/storage";
+import { LLMService } from "./llm";
+import { createSpeechProvider, type SpeechToTextProvider } from "./speech";
+import { retryOperation } from "../utils/retry";
+
+interface ProcessAudioOptions {
+  lang: string;
+  model: string;
+}
+
+export interface AudioProcessingResult {
+  success: boolean;
+  uploadId: string;
+  fileName: string;
+  tldr: string | null;
+  chapters: Chapter[];
+  model: string;
+  detectedLanguage: string | null;
+  provider: string;
+  processedAt: string;
+  responseTime: number;
+  transcriptLength: number;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * Transcribes stored audio uploads and summarizes them with the same LLM pipeline as YouTube videos
+ */
+export class AudioProcessingService {
+  private provider: SpeechToTextProvider;
+  private llmService = new LLMService();
+
+  constructor(provider: SpeechToTextProvider = createSpeechProvider()) {
+    this.provider = provider;
+  }
+
+  async processUpload(upload: AudioUpload, options: ProcessAudioOptions): Promise<AudioProcessingResult> {
+    const startTime = Date.now();
+    const baseResult = {
+      uploadId: upload.id,
+      fileName: upload.originalName,
+      model: options.model,
+      provider: this.provider.name
+    };
+
+    await storage.updateAudioUpload(upload.id, { status: 'processing' });
+
+    try {
+      const transcript = await retryOperation(
+        () => this.provider.transcribe({
+          filePath: upload.filePath,
+          fileName: upload.originalName,
+          fileSize: upload.fileSize,
+          mimeType: upload.mimeType,
+          language: options.lang
+        }),
+        { maxRetries: 2, delay: 2000 }
+      );
+
+      await storage.updateAudioUpload(upload.id, {
+        transcriptText: transcript.text,
+        detectedLanguage: transcript.detectedLanguage || null
+      });
+
+      if (!transcript.text || transcript.text.length < 50) {
+        const error = 'No speech detected in the uploaded audio';
+        await this.markFailed(upload.id, error, startTime);
+
+        return {
+          ...baseResult,
+          success: false,
+          tldr: null,
+          chapters: [],
+          detectedLanguage: transcript.detectedLanguage || null,
+          processedAt: new Date().toISOString(),
+          responseTime: Date.now() - startTime,
+          transcriptLength: transcript.text.length,
+          error
+        };
+      }
+
+      const llmResult = await retryOperation(
+        () => this.llmService.generateTLDRAndChapters(transcript, options.lang, options.model, {
+          attribution: { source: 'audio', apiKeyId: upload.apiKeyId, userId: upload.userId }
+        }),
+        { maxRetries: 2, delay: 2000 }
+      );
+
+      await storage.updateAudioUpload(upload.id, {
+        status: 'completed',
+        processingTime: Date.now() - startTime,
+        processedAt: new Date()
+      });
+
+      return {
+        ...baseResult,
+        success: true,
+        tldr: llmResult.tldr,
+        chapters: llmResult.chapters,
+        detectedLanguage: transcript.detectedLanguage || null,
+        processedAt: new Date().toISOString(),
+        responseTime: Date.now() - startTime,
+        transcriptLength: transcript.text.length,
+        usage: llmResult.usage
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      await this.markFailed(upload.id, errorMessage, startTime);
+      throw error;
+    }
+  }
+
+  private async markFailed(uploadId: string, errorMessage: string, startTime: number): Promise<void> {
+    await storage.updateAudioUpload(uploadId, {
+      status: 'failed',
+      errorMessage,
+      processingTime: Date.now() - startTime,
+      processedAt: new Date()
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "../utils/storage";
+import type { Credentials, PublicUser, User } from "@shared/schema";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const HASH_SCHEME = 'scrypt';
+const KEY_LENGTH = 64;
+
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username ${username} is already taken`);
+    this.name = 'UsernameTakenError';
+  }
+}
+
+/**
+ * Hash a password as `scrypt:<salt>:<hash>` with a random per-password salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_SCHEME}:${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash. Values in any other format (such as plaintext rows
+ * written before hashing existed) never match.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== HASH_SCHEME || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === KEY_LENGTH && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Account signup and sign-in checks for the session login; users returned from here never
+ * carry the password hash
+ */
+export class AuthService {
+  // Compared against when the username doesn't exist, so unknown users take as long as bad passwords
+  private readonly dummyHash = hashPassword(randomBytes(16).toString('hex'));
+
+  async register(credentials: Credentials): Promise<PublicUser> {
+    if (await storage.getUserByUsername(credentials.username)) {
+      throw new UsernameTakenError(credentials.username);
+    }
+
+    const password = await hashPassword(credentials.password);
+    let user: User;
+    try {
+      user = await storage.createUser({ username: credentials.username, password });
+    } catch (error) {
+      // Lost a race with a concurrent signup for the same name
+      if (await storage.getUserByUsername(credentials.username)) {
+        throw new UsernameTakenError(credentials.username);
+      }
+      throw error;
+    }
+
+    console.log(`[AUTH] Registered user ${user.username} (${user.id})`);
+    return this.toPublic(user);
+  }
+
+  /**
+   * Resolve a username and password to the user, or null when either is wrong
+   */
+  async verify(username: string, password: string): Promise<PublicUser | null> {
+    const user = await storage.getUserByUsername(username);
+    if (!user) {
+      await verifyPassword(password, await this.dummyHash);
+      return null;
+    }
+
+    return await verifyPassword(password, user.password) ? this.toPublic(user) : null;
+  }
+
+  async getUser(id: string): Promise<PublicUser | undefined> {
+    const user = await storage.getUser(id);
+    return user && this.toPublic(user);
+  }
+
+  private toPublic(user: User): PublicUser {
+    const { password: _password, ...publicUser } = user;
+    return publicUser;
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,230 @@
+import type { BatchJob, BatchItemResult } from "@shared/schema";
+import { storage } from "../utils/storage";
+import type { RecordOwner } from "../utils/record-owner";
+import { VideoProcessingService } from "./processing";
+
+const INTERRUPTED_ERROR = 'Server restarted before this item finished';
+
+interface BatchItem {
+  url: string;
+  videoId: string | null;
+}
+
+interface StartBatchInput {
+  name: string;
+  items: BatchItem[];
+  lang: string;
+  model: string;
+  // Key charged for the batch's LLM tokens
+  apiKeyId?: string;
+  // User the batch belongs to
+  userId?: string;
+}
+
+interface BatchState {
+  job: BatchJob;
+  cancelled: boolean;
+  // Serializes storage writes so counters are never persisted out of order
+  persist: Promise<unknown>;
+}
+
+/**
+ * Processes batchJobs through the same pipeline as /api/build with bounded concurrency.
+ * Batches run in the background; progress is persisted after every item.
+ */
+export class BatchProcessingService {
+  private active = new Map<string, BatchState>();
+
+  constructor(private readonly concurrency: number = 3) {}
+
+  async startBatch(input: StartBatchInput): Promise<BatchJob> {
+    const results: BatchItemResult[] = input.items.map(item => ({
+      id: item.videoId || item.url,
+      status: 'pending'
+    }));
+
+    const job = await storage.createBatchJob({
+      name: input.name,
+      type: 'youtube_batch',
+      userId: input.userId,
+      apiKeyId: input.apiKeyId,
+      status: 'pending',
+      totalItems: input.items.length,
+      processedItems: 0,
+      successfulItems: 0,
+      failedItems: 0,
+      results
+    });
+
+    const state: BatchState = { job, cancelled: false, persist: Promise.resolve() };
+    this.active.set(job.id, state);
+
+    console.log(`[BATCH] Started batch ${job.id} with ${input.items.length} items`);
+
+    this.runBatch(state, input)
+      .catch(error => console.error(`[BATCH] Batch ${job.id} crashed:`, error))
+      .finally(() => this.active.delete(job.id));
+
+    return job;
+  }
+
+  /**
+   * Close batches a previous run of the server left pending or processing. Their language, model
+   * and remaining URLs aren't persisted, so they can't be resumed: unfinished items are marked
+   * failed and the batch is finished the way a run would finish it.
+   */
+  async failInterrupted(): Promise<void> {
+    const interrupted = await storage.getBatchJobsByStatus(['pending', 'processing']);
+
+    for (const job of interrupted) {
+      if (this.active.has(job.id)) continue;
+
+      let unfinished = 0;
+      const results = (job.results || []).map(result => {
+        if (result.status !== 'pending' && result.status !== 'processing') return result;
+        unfinished++;
+        return { ...result, status: 'failed', error: INTERRUPTED_ERROR };
+      });
+
+      await storage.updateBatchJob(job.id, {
+        status: job.successfulItems ? 'completed' : 'failed',
+        results,
+        processedItems: (job.processedItems || 0) + unfinished,
+        failedItems: (job.failedItems || 0) + unfinished,
+        completedAt: new Date()
+      });
+      console.warn(`[BATCH] Batch ${job.id} was interrupted by a restart, ${unfinished} unfinished items marked failed`);
+    }
+  }
+
+  async getBatch(id: string): Promise<BatchJob | undefined> {
+    return await storage.getBatchJob(id);
+  }
+
+  async listBatches(limit?: number, owner?: RecordOwner): Promise<BatchJob[]> {
+    return await storage.getBatchJobs(limit, owner);
+  }
+
+  /**
+   * Stop a running batch. Items already in flight finish; the rest are marked cancelled.
+   */
+  async cancelBatch(id: string): Promise<BatchJob | undefined> {
+    const state = this.active.get(id);
+    if (!state) {
+      return await storage.getBatchJob(id);
+    }
+
+    console.log(`[BATCH] Cancelling batch ${id}`);
+    state.cancelled = true;
+    state.job.status = 'cancelled';
+    await this.save(state);
+
+    return state.job;
+  }
+
+  /**
+   * Render per-item results as CSV for download
+   */
+  formatResultsCsv(job: BatchJob): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = ['videoId', 'status', 'videoTitle', 'tldr', 'chapters', 'error'];
+    const rows = (job.results || []).map(item => [
+      item.id,
+      item.status,
+      item.result?.videoTitle,
+      item.result?.tldr,
+      item.result?.chapters?.map((chapter: { time: string; title: string }) => `${chapter.time} ${chapter.title}`).join('; '),
+      item.error
+    ].map(escape).join(','));
+
+    return [header.join(','), ...rows].join('\n');
+  }
+
+  private async runBatch(state: BatchState, input: StartBatchInput): Promise<void> {
+    state.job.status = 'processing';
+    state.job.startedAt = new Date();
+    await this.save(state);
+
+    let nextIndex = 0;
+    const worker = async () => {
+      while (!state.cancelled && nextIndex < input.items.length) {
+        const index = nextIndex++;
+        await this.processItem(state, index, input.items[index], input);
+      }
+    };
+
+    const workerCount = Math.min(this.concurrency, input.items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    const results = state.job.results || [];
+    state.job.results = results.map(result =>
+      result.status === 'pending' ? { ...result, status: 'cancelled' } : result
+    );
+    if (!state.cancelled) {
+      state.job.status = state.job.successfulItems ? 'completed' : 'failed';
+    }
+    state.job.completedAt = new Date();
+    await this.save(state);
+
+    console.log(`[BATCH] Batch ${state.job.id} ${state.job.status}: ${state.job.successfulItems}/${state.job.totalItems} succeeded`);
+  }
+
+  private async processItem(state: BatchState, index: number, item: BatchItem, input: StartBatchInput): Promise<void> {
+    const results = state.job.results!;
+
+    if (!item.videoId) {
+      results[index] = { id: item.url, status: 'failed', error: 'Invalid YouTube URL format' };
+      await this.recordOutcome(state, false);
+      return;
+    }
+
+    results[index] = { id: item.videoId, status: 'processing' };
+    await this.save(state);
+
+    try {
+      const processingService = new VideoProcessingService();
+      const result = await processingService.processVideo(item.videoId, {
+        lang: input.lang,
+        model: input.model,
+        attribution: { source: 'batch', apiKeyId: input.apiKeyId, userId: input.userId }
+      });
+
+      results[index] = result.success
+        ? { id: item.videoId, status: 'completed', result }
+        : { id: item.videoId, status: 'failed', result, error: result.error };
+      await this.recordOutcome(state, result.success);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+      console.warn(`[BATCH] Item ${item.videoId} in batch ${state.job.id} failed:`, errorMessage);
+
+      results[index] = { id: item.videoId, status: 'failed', error: errorMessage };
+      await this.recordOutcome(state, false);
+    }
+  }
+
+  private async recordOutcome(state: BatchState, success: boolean): Promise<void> {
+    state.job.processedItems = (state.job.processedItems || 0) + 1;
+    if (success) {
+      state.job.successfulItems = (state.job.successfulItems || 0) + 1;
+    } else {
+      state.job.failedItems = (state.job.failedItems || 0) + 1;
+    }
+    await this.save(state);
+  }
+
+  private save(state: BatchState): Promise<unknown> {
+    const { id, ...snapshot } = { ...state.job, results: [...(state.job.results || [])] };
+    state.persist = state.persist
+      .then(() => storage.updateBatchJob(id, snapshot))
+      .catch(error => console.error(`[BATCH] Failed to persist batch ${id}:`, error));
+    return state.persist;
+  }
+}
+
+export const batchProcessor = new BatchProcessingService(
+  parseInt(process.env.BATCH_CONCURRENCY || '3', 10)
+);
@@ -0,0 +1,407 @@
+import { storage } from "../utils/storage";
+
+export interface CacheRecord {
+  value: any;
+  createdAt: number;
+  // Soft deadline: after it the record is still returned but should be refreshed
+  staleAt: number;
+  // Hard deadline: after it the record is gone
+  expiresAt: number;
+  sizeBytes: number;
+  hits: number;
+}
+
+// A record without its value, as returned by CacheStore.list()
+export interface CacheListing extends Omit<CacheRecord, 'value'> {
+  key: string;
+}
+
+/**
+ * A cache backend. Values must be JSON-serializable; expired records are never returned.
+ */
+export interface CacheStore {
+  readonly name: string;
+  // Reading a record counts as a hit
+  get(key: string): Promise<CacheRecord | null>;
+  // softTtlSeconds defaults to ttlSeconds, i.e. the record never turns stale
+  set(key: string, value: any, ttlSeconds: number, softTtlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<CacheListing[]>;
+  clear(): Promise<void>;
+  // Remove expired records, returning how many were dropped
+  prune(): Promise<number>;
+}
+
+function measure(value: any): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+}
+
+function deadlines(now: number, ttlSeconds: number, softTtlSeconds: number = ttlSeconds) {
+  return {
+    staleAt: now + Math.min(softTtlSeconds, ttlSeconds) * 1000,
+    expiresAt: now + ttlSeconds * 1000
+  };
+}
+
+/**
+ * Process-wide LRU bounded by entry count and total serialized bytes
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  // Map iteration order doubles as recency order: oldest first
+  private entries = new Map<string, CacheRecord>();
+  private totalBytes = 0;
+
+  constructor(private readonly maxEntries: number, private readonly maxBytes: number) {}
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const record = this.entries.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (Date.now() >= record.expiresAt) {
+      this.remove(key);
+      return null;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    record.hits++;
+    return record;
+  }
+
+  async set(key: string, value: any, ttlSeconds: number, softTtlSeconds?: number): Promise<void> {
+    const sizeBytes = measure(value);
+    if (sizeBytes > this.maxBytes) {
+      console.warn(`[CACHE:memory] Skipping ${key}: ${sizeBytes} bytes exceeds the ${this.maxBytes} byte limit`);
+      return;
+    }
+
+    this.remove(key);
+
+    const now = Date.now();
+    this.entries.set(key, { value, createdAt: now, ...deadlines(now, ttlSeconds, softTtlSeconds), sizeBytes, hits: 0 });
+    this.totalBytes += sizeBytes;
+
+    this.evict();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  async list(): Promise<CacheListing[]> {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, record]) => now < record.expiresAt)
+      .map(([key, { value, ...record }]) => ({ key, ...record }));
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    Array.from(this.entries.entries()).forEach(([key, record]) => {
+      if (now >= record.expiresAt) {
+        this.remove(key);
+        removed++;
+      }
+    });
+
+    return removed;
+  }
+
+  private remove(key: string): boolean {
+    const record = this.entries.get(key);
+    if (!record) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.totalBytes -= record.sizeBytes;
+    return true;
+  }
+
+  private evict(): void {
+    const keys = this.entries.keys();
+    while (this.entries.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+      const oldest = keys.next();
+      if (oldest.done) break;
+      this.remove(oldest.value);
+    }
+  }
+}
+
+/**
+ * Stores records in the cache_entries table of the configured storage, so they survive restarts
+ * and are shared between instances
+ */
+export class StorageCacheStore implements CacheStore {
+  readonly name = 'sql';
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const entry = await storage.getCacheEntry(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() >= entry.expiresAt.getTime()) {
+      await storage.deleteCacheEntry(key);
+      return null;
+    }
+
+    await storage.incrementCacheEntryHits(key);
+
+    return {
+      value: entry.value,
+      createdAt: entry.createdAt?.getTime() ?? Date.now(),
+      staleAt: (entry.staleAt ?? entry.expiresAt).getTime(),
+      expiresAt: entry.expiresAt.getTime(),
+      sizeBytes: entry.sizeBytes,
+      hits: entry.hits + 1
+    };
+  }
+
+  async set(key: string, value: any, ttlSeconds: number, softTtlSeconds?: number): Promise<void> {
+    const { staleAt, expiresAt } = deadlines(Date.now(), ttlSeconds, softTtlSeconds);
+    await storage.setCacheEntry({
+      key,
+      value,
+      sizeBytes: measure(value),
+      staleAt: new Date(staleAt),
+      expiresAt: new Date(expiresAt)
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return await storage.deleteCacheEntry(key);
+  }
+
+  async clear(): Promise<void> {
+    await storage.clearCacheEntries();
+  }
+
+  async list(): Promise<CacheListing[]> {
+    const now = Date.now();
+    const entries = await storage.listCacheEntries();
+
+    return entries
+      .filter(entry => now < entry.expiresAt.getTime())
+      .map(entry => ({
+        key: entry.key,
+        createdAt: entry.createdAt?.getTime() ?? now,
+        staleAt: (entry.staleAt ?? entry.expiresAt).getTime(),
+        expiresAt: entry.expiresAt.getTime(),
+        sizeBytes: entry.sizeBytes,
+        hits: entry.hits
+      }));
+  }
+
+  async prune(): Promise<number> {
+    return await storage.deleteExpiredCacheEntries();
+  }
+}
+
+/**
+ * The subset of the Workers KVNamespace API used by KVCacheStore
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'text'): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+// Workers KV rejects expirationTtl values below 60 seconds
+const KV_MIN_TTL_SECONDS = 60;
+
+/**
+ * Adapter for the CACHE_KV namespace bound in wrangler.toml. KV expires keys on its own,
+ * so prune() has nothing to do. Hit counts are kept per process, since writing them back
+ * on every read would exceed KV's per-key write rate.
+ */
+export class KVCacheStore implements CacheStore {
+  readonly name = 'kv';
+  private hits = new Map<string, number>();
+
+  constructor(private readonly namespace: KVNamespaceLike, private readonly prefix = 'cache:') {}
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const raw = await this.namespace.get(this.prefix + key, 'text');
+    if (!raw) {
+      return null;
+    }
+
+    const record = JSON.parse(raw) as CacheRecord;
+    // KV expiry is eventually consistent; honour our own deadline as well
+    if (Date.now() >= record.expiresAt) {
+      return null;
+    }
+
+    const hits = (this.hits.get(key) || 0) + 1;
+    this.hits.set(key, hits);
+    return { ...record, hits };
+  }
+
+  async set(key: string, value: any, ttlSeconds: number, softTtlSeconds?: number): Promise<void> {
+    const now = Date.now();
+    const record: CacheRecord = {
+      value,
+      createdAt: now,
+      ...deadlines(now, ttlSeconds, softTtlSeconds),
+      sizeBytes: measure(value),
+      hits: 0
+    };
+    this.hits.delete(key);
+
+    await this.namespace.put(this.prefix + key, JSON.stringify(record), {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlSeconds))
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = (await this.namespace.get(this.prefix + key, 'text')) !== null;
+    await this.namespace.delete(this.prefix + key);
+    this.hits.delete(key);
+    return existed;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.listKeys();
+    await Promise.all(keys.map(key => this.namespace.delete(key)));
+    this.hits.clear();
+  }
+
+  async list(): Promise<CacheListing[]> {
+    const now = Date.now();
+    const listings: CacheListing[] = [];
+
+    for (const name of await this.listKeys()) {
+      const raw = await this.namespace.get(name, 'text');
+      if (!raw) continue;
+
+      const { value, ...record } = JSON.parse(raw) as CacheRecord;
+      const key = name.slice(this.prefix.length);
+      if (now < record.expiresAt) {
+        listings.push({ ...record, key, hits: this.hits.get(key) || 0 });
+      }
+    }
+
+    return listings;
+  }
+
+  private async listKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ prefix: this.prefix, cursor });
+      keys.push(...page.keys.map(key => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return keys;
+  }
+
+  async prune(): Promise<number> {
+    return 0;
+  }
+}
+
+/**
+ * KVNamespaceLike over the Cloudflare REST API, for using the CACHE_KV namespace outside a Worker
+ */
+export class CloudflareKVRestNamespace implements KVNamespaceLike {
+  private baseUrl: string;
+
+  constructor(accountId: string, namespaceId: string, private readonly apiToken: string) {
+    this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${accountId}/storage/kv/namespaces/${namespaceId}`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const response = await this.request(`/values/${encodeURIComponent(key)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    return await response.text();
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    const query = options.expirationTtl ? `?expiration_ttl=${options.expirationTtl}` : '';
+    await this.request(`/values/${encodeURIComponent(key)}${query}`, { method: 'PUT', body: value });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request(`/values/${encodeURIComponent(key)}`, { method: 'DELETE' });
+  }
+
+  async list(options: { prefix?: string; cursor?: string } = {}) {
+    const params = new URLSearchParams();
+    if (options.prefix) params.set('prefix', options.prefix);
+    if (options.cursor) params.set('cursor', options.cursor);
+
+    const response = await this.request(`/keys?${params}`);
+    const data = await response.json();
+    const cursor: string | undefined = data.result_info?.cursor || undefined;
+
+    return {
+      keys: (data.result || []) as Array<{ name: string }>,
+      list_complete: !cursor,
+      cursor
+    };
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(this.baseUrl + path, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${this.apiToken}` },
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Cloudflare KV API error: ${response.status}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Pick the backend from CACHE_STORE (memory | sql | kv), defaulting to the in-memory LRU.
+ * The kv backend uses a CACHE_KV binding when running in a Worker, or the REST API otherwise.
+ */
+export function createCacheStore(kvBinding?: KVNamespaceLike): CacheStore {
+  const configured = process.env.CACHE_STORE || 'memory';
+
+  switch (configured) {
+    case 'memory':
+      return new MemoryCacheStore(
+        parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+        parseInt(process.env.CACHE_MAX_BYTES || String(50 * 1024 * 1024), 10)
+      );
+    case 'sql':
+      return new StorageCacheStore();
+    case 'kv': {
+      const namespace = kvBinding || (globalThis as any).CACHE_KV as KVNamespaceLike | undefined;
+      if (namespace) {
+        return new KVCacheStore(namespace);
+      }
+
+      const { CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_API_TOKEN, CACHE_KV_NAMESPACE_ID } = process.env;
+      if (!CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_API_TOKEN || !CACHE_KV_NAMESPACE_ID) {
+        throw new Error('CACHE_STORE=kv requires a CACHE_KV binding or CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_API_TOKEN and CACHE_KV_NAMESPACE_ID');
+      }
+      return new KVCacheStore(new CloudflareKVRestNamespace(CLOUDFLARE_ACCOUNT_ID, CACHE_KV_NAMESPACE_ID, CLOUDFLARE_API_TOKEN));
+    }
+    default:
+      throw new Error(`Unknown CACHE_STORE: ${configured}`);
+  }
+}
@@ -1,53 +1,216 @@
+import { createHash } from "crypto";
+import type { CacheEntryInfo, CacheTier } from "@shared/schema";
+import { createCacheStore, type CacheStore, type CacheListing } from "./cache-stores";
+
+// How often expired entries are swept from the store
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Responses are fresh for CACHE_TTL_SECONDS; after that they are served stale, while a
+// background refresh runs, until CACHE_HARD_TTL_SECONDS
+export const RESPONSE_SOFT_TTL_SECONDS = parseInt(process.env.CACHE_TTL_SECONDS || '3600', 10);
+
+// Lifetime of each cache tier. Transcripts and LLM outputs for a given input don't change;
+// metadata (titles, durations) occasionally does.
+export const CACHE_TIER_TTL_SECONDS: Record<CacheTier, number> = {
+  response: Math.max(
+    RESPONSE_SOFT_TTL_SECONDS,
+    parseInt(process.env.CACHE_HARD_TTL_SECONDS || String(24 * 3600), 10)
+  ),
+  metadata: parseInt(process.env.CACHE_METADATA_TTL_SECONDS || String(24 * 3600), 10),
+  transcript: parseInt(process.env.CACHE_TRANSCRIPT_TTL_SECONDS || String(7 * 24 * 3600), 10),
+  llm: parseInt(process.env.CACHE_LLM_TTL_SECONDS || String(30 * 24 * 3600), 10)
+};
+
+export interface ParsedCacheKey {
+  tier: CacheTier | 'unknown';
+  videoId?: string;
+  language?: string;
+  model?: string;
+  transcriptHash?: string;
+}
+
+/**
+ * Split a key produced by CacheService back into its components. Model ids may contain ':'
+ * (e.g. "gemma2:2b"), so the model is whatever remains between the fixed parts.
+ */
+export function parseCacheKey(key: string): ParsedCacheKey {
+  const [prefix, ...parts] = key.split(':');
+
+  switch (prefix) {
+    case 'tldr':
+      return { tier: 'response', videoId: parts[0], language: parts[1], model: parts.slice(2).join(':') };
+    case 'metadata':
+      return { tier: 'metadata', videoId: parts[0] };
+    case 'transcript':
+      return { tier: 'transcript', videoId: parts[0], language: parts[1] };
+    case 'llm':
+      return {
+        tier: 'llm',
+        transcriptHash: parts[0],
+        model: parts.slice(2, -1).join(':'),
+        language: parts[parts.length - 1]
+      };
+    default:
+      return { tier: 'unknown' };
+  }
+}
+
 export class CacheService {
-  private cache = new Map<string, { data: any; expires: number }>();
+  constructor(private readonly store: CacheStore = createCacheStore()) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
 
   async generateCacheKey(videoId: string, language: string, model: string): Promise<string> {
-    // Create a hash of the key components
-    const keyString = `${videoId}-${language}-${model}`;
-    return `tldr:${keyString}`;
+    return `tldr:${videoId}:${language}:${model}`;
   }
 
-  async get(key: string): Promise<any | null> {
-    const cached = this.cache.get(key);
-    
-    if (!cached) {
-      return null;
+  metadataKey(videoId: string): string {
+    return `metadata:${videoId}`;
+  }
+
+  transcriptKey(videoId: string, captionLanguages: string[]): string {
+    return `transcript:${videoId}:${captionLanguages.join(',')}`;
+  }
+
+  llmKey(transcriptText: string, promptVersion: string, model: string, language: string): string {
+    return `llm:${this.hashTranscript(transcriptText)}:${promptVersion}:${model}:${language}`;
+  }
+
+  /**
+   * Return the cached value for key, or run load and cache its result when shouldCache accepts it
+   */
+  async remember<T>(
+    key: string,
+    ttlSeconds: number,
+    load: () => Promise<T>,
+    shouldCache: (value: T) => boolean = value => value !== null && value !== undefined
+  ): Promise<{ value: T; cached: boolean }> {
+    const cachedValue = await this.get(key);
+    if (cachedValue !== null) {
+      return { value: cachedValue as T, cached: true };
     }
 
-    if (Date.now() > cached.expires) {
-      this.cache.delete(key);
-      return null;
+    const value = await load();
+    if (shouldCache(value)) {
+      await this.set(key, value, ttlSeconds);
     }
+    return { value, cached: false };
+  }
 
-    return cached.data;
+  async get(key: string): Promise<any | null> {
+    const entry = await this.getEntry(key);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Like get, but also reports whether the value is past its soft TTL
+   */
+  async getEntry(key: string): Promise<{ value: any; stale: boolean } | null> {
+    try {
+      const record = await this.store.get(key);
+      return record ? { value: record.value, stale: Date.now() >= record.staleAt } : null;
+    } catch (error) {
+      // A broken cache backend should slow requests down, not fail them
+      console.warn(`[CACHE:${this.store.name}] Read of ${key} failed:`, error);
+      return null;
+    }
   }
 
-  async set(key: string, data: any, ttlSeconds: number = 3600): Promise<void> {
-    const expires = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { data, expires });
+  async set(key: string, data: any, ttlSeconds: number = 3600, softTtlSeconds?: number): Promise<void> {
+    try {
+      await this.store.set(key, data, ttlSeconds, softTtlSeconds);
+    } catch (error) {
+      console.warn(`[CACHE:${this.store.name}] Write of ${key} failed:`, error);
+    }
   }
 
-  async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    return await this.store.delete(key);
   }
 
   async clear(): Promise<void> {
-    this.cache.clear();
+    await this.store.clear();
   }
 
-  // Clean up expired entries periodically
-  cleanup(): void {
+  /**
+   * Live entries with their age and remaining lifetime, most recently created first
+   */
+  async list(): Promise<CacheEntryInfo[]> {
     const now = Date.now();
-    Array.from(this.cache.entries()).forEach(([key, value]) => {
-      if (now > value.expires) {
-        this.cache.delete(key);
+    const entries = await this.store.list();
+
+    return entries
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(entry => ({
+        key: entry.key,
+        tier: parseCacheKey(entry.key).tier,
+        sizeBytes: entry.sizeBytes,
+        ageSeconds: Math.floor((now - entry.createdAt) / 1000),
+        ttlRemainingSeconds: Math.max(0, Math.ceil((entry.expiresAt - now) / 1000)),
+        hits: entry.hits,
+        stale: now >= entry.staleAt
+      }));
+  }
+
+  /**
+   * Drop every tier cached for a video. LLM results are keyed by transcript hash, so they are
+   * found through the video's cached transcripts; results whose transcript already expired stay
+   * until their own TTL runs out.
+   */
+  async purgeVideo(videoId: string): Promise<string[]> {
+    const entries = await this.store.list();
+    const transcriptHashes = new Set<string>();
+
+    for (const entry of entries) {
+      const parsed = parseCacheKey(entry.key);
+      if (parsed.tier === 'transcript' && parsed.videoId === videoId) {
+        const record = await this.store.get(entry.key);
+        if (record?.value?.text) {
+          transcriptHashes.add(this.hashTranscript(record.value.text));
+        }
       }
-    });
+    }
+
+    return await this.deleteMatching(entries, parsed =>
+      parsed.videoId === videoId || (!!parsed.transcriptHash && transcriptHashes.has(parsed.transcriptHash))
+    );
+  }
+
+  /**
+   * Drop every response and LLM result produced by a model
+   */
+  async purgeModel(model: string): Promise<string[]> {
+    const entries = await this.store.list();
+    return await this.deleteMatching(entries, parsed => parsed.model === model);
+  }
+
+  private async deleteMatching(entries: CacheListing[], matches: (parsed: ParsedCacheKey) => boolean): Promise<string[]> {
+    const keys = entries.map(entry => entry.key).filter(key => matches(parseCacheKey(key)));
+    await Promise.all(keys.map(key => this.store.delete(key)));
+    return keys;
+  }
+
+  private hashTranscript(transcriptText: string): string {
+    return createHash('sha256').update(transcriptText).digest('hex');
+  }
+
+  // Clean up expired entries
+  async cleanup(): Promise<number> {
+    return await this.store.prune();
   }
 }
 
-// Set up periodic cleanup
+// Shared by every request so entries outlive the request that created them
+export const cacheService = new CacheService();
+
 setInterval(() => {
-  // This would be accessible to all CacheService instances
-  // In a real implementation, you might want to use a singleton pattern
-}, 5 * 60 * 1000); // Clean up every 5 minutes
+  cacheService.cleanup()
+    .then(removed => {
+      if (removed > 0) {
+        console.log(`[CACHE] Pruned ${removed} expired entries`);
+      }
+    })
+    .catch(error => console.error('[CACHE] Cleanup failed:', error));
+}, PRUNE_INTERVAL_MS).unref();
@@ -0,0 +1,91 @@
+import { storage } from "../utils/storage";
+import { apiKeyService } from "./api-keys";
+import type { CostGrouping, CostReport, CostTotals, InsertLlmUsage, LlmUsage } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function emptyTotals(): CostTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addSample(totals: CostTotals, sample: LlmUsage): void {
+  totals.requests++;
+  totals.promptTokens += sample.promptTokens;
+  totals.completionTokens += sample.completionTokens;
+  totals.totalTokens += sample.promptTokens + sample.completionTokens;
+  totals.costUsd += sample.costUsd;
+}
+
+// Sums of many small float costs pick up noise in the last digits
+function roundCost<T extends CostTotals>(totals: T): T {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 1e6) / 1e6 };
+}
+
+/**
+ * Records every paid LLM completion in the llmUsage ledger and aggregates it into cost reports
+ */
+export class CostReportService {
+  /**
+   * Store one completion and charge its tokens to the calling key's daily quota. Failures are
+   * logged, not thrown: the completion has been paid for either way.
+   */
+  async recordUsage(usage: InsertLlmUsage): Promise<void> {
+    try {
+      await storage.createLlmUsage(usage);
+    } catch (error) {
+      console.error(`[COSTS] Failed to record ${usage.model} usage for ${usage.source}:`, error);
+    }
+    await apiKeyService.recordTokens(usage.apiKeyId || undefined, usage.promptTokens + usage.completionTokens);
+  }
+
+  /**
+   * Spend over the last `days` UTC days including today, grouped by day, model, API key or user
+   */
+  async getReport(days: number, groupBy: CostGrouping, now: Date = new Date()): Promise<CostReport> {
+    const since = new Date(startOfUtcDay(now).getTime() - (days - 1) * DAY_MS);
+    const samples = await storage.getLlmUsageBetween(since, new Date(startOfUtcDay(now).getTime() + DAY_MS));
+
+    const groups = new Map<string | null, CostTotals>();
+    const total = emptyTotals();
+    samples.forEach(sample => {
+      const key = this.groupKey(sample, groupBy);
+      if (!groups.has(key)) groups.set(key, emptyTotals());
+      addSample(groups.get(key)!, sample);
+      addSample(total, sample);
+    });
+
+    const rows = Array.from(groups.entries()).map(([key, totals]) => roundCost({ key, ...totals }));
+    if (groupBy === 'day') {
+      rows.sort((a, b) => (a.key || '').localeCompare(b.key || ''));
+    } else {
+      rows.sort((a, b) => b.costUsd - a.costUsd);
+    }
+
+    return {
+      groupBy,
+      days,
+      since: since.toISOString(),
+      rows,
+      total: roundCost(total)
+    };
+  }
+
+  private groupKey(sample: LlmUsage, groupBy: CostGrouping): string | null {
+    switch (groupBy) {
+      case 'day':
+        return sample.createdAt ? sample.createdAt.toISOString().slice(0, 10) : null;
+      case 'model':
+        return sample.model;
+      case 'apiKey':
+        return sample.apiKeyId;
+      case 'user':
+        return sample.userId;
+    }
+  }
+}
+
+export const costReports = new CostReportService();
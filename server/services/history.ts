@@ -0,0 +1,50 @@
+import { storage } from "../utils/storage";
+import type { ApiLog, HistoryEntry, VideoProcessingJob } from "@shared/schema";
+
+// Endpoints whose successful requests count as processing a video
+const HISTORY_ENDPOINTS = ['/api/build', '/api/build/stream'];
+
+/**
+ * Per-user history of processed videos: synchronous builds come from apiLogs, async ones from
+ * videoProcessingJobs
+ */
+export class HistoryService {
+  async getHistory(userId: string, limit: number = 50): Promise<HistoryEntry[]> {
+    const [logs, jobs] = await Promise.all([
+      storage.getUserVideoLogs(userId, HISTORY_ENDPOINTS, limit),
+      storage.getVideoJobsByUser(userId, limit)
+    ]);
+
+    return [...logs.map(log => this.fromLog(log)), ...jobs.map(job => this.fromJob(job))]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  private fromLog(log: ApiLog): HistoryEntry {
+    return {
+      videoId: log.videoId!,
+      language: log.language,
+      model: log.model,
+      source: 'build',
+      status: 'completed',
+      jobId: null,
+      tldr: null,
+      createdAt: (log.createdAt || new Date(0)).toISOString()
+    };
+  }
+
+  private fromJob(job: VideoProcessingJob): HistoryEntry {
+    return {
+      videoId: job.videoId,
+      language: job.language,
+      model: job.model,
+      source: 'job',
+      status: job.status,
+      jobId: job.id,
+      tldr: job.tldr,
+      createdAt: (job.createdAt || new Date(0)).toISOString()
+    };
+  }
+}
+
+export const historyService = new HistoryService();
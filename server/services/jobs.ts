@@ -0,0 +1,140 @@
+import type { VideoProcessingJob } from "@shared/schema";
+import { storage } from "../utils/storage";
+import { VideoProcessingService } from "./processing";
+import { usageColumns } from "./llm";
+
+interface EnqueueJobInput {
+  videoId: string;
+  videoUrl: string;
+  lang: string;
+  model: string;
+  // User the job shows up for in /api/history
+  userId?: string;
+  // Key charged for the job's LLM tokens
+  apiKeyId?: string;
+}
+
+/**
+ * In-process worker queue for videoProcessingJobs.
+ * Jobs move pending -> processing -> completed/failed and are persisted through storage.
+ */
+export class JobQueueService {
+  private queue: string[] = [];
+  private activeJobs = 0;
+
+  constructor(private readonly concurrency: number = 2) {}
+
+  /**
+   * Persist a pending job and schedule it; resolves as soon as the job is stored
+   */
+  async enqueue(input: EnqueueJobInput): Promise<VideoProcessingJob> {
+    const job = await storage.createVideoJob({
+      videoId: input.videoId,
+      videoUrl: input.videoUrl,
+      userId: input.userId,
+      apiKeyId: input.apiKeyId,
+      status: 'pending',
+      model: input.model,
+      language: input.lang
+    });
+
+    console.log(`[JOBS] Enqueued job ${job.id} for video ${input.videoId}`);
+    this.queue.push(job.id);
+    this.drain();
+
+    return job;
+  }
+
+  /**
+   * Requeue jobs a previous run of the server left pending or processing, oldest first.
+   * The queue only lives in memory, so otherwise they would never finish.
+   */
+  async resume(): Promise<void> {
+    const unfinished = await storage.getVideoJobsByStatus(['pending', 'processing']);
+    if (unfinished.length === 0) return;
+
+    console.log(`[JOBS] Requeuing ${unfinished.length} unfinished jobs from a previous run`);
+    unfinished.forEach(job => this.queue.push(job.id));
+    this.drain();
+  }
+
+  async getJob(id: string): Promise<VideoProcessingJob | undefined> {
+    return await storage.getVideoJob(id);
+  }
+
+  /**
+   * Start queued jobs until the concurrency limit is reached
+   */
+  private drain(): void {
+    while (this.activeJobs < this.concurrency && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.activeJobs++;
+
+      this.runJob(jobId)
+        .catch(error => console.error(`[JOBS] Job ${jobId} crashed:`, error))
+        .finally(() => {
+          this.activeJobs--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const job = await storage.getVideoJob(jobId);
+    if (!job) {
+      console.warn(`[JOBS] Job ${jobId} no longer exists, skipping`);
+      return;
+    }
+
+    const startTime = Date.now();
+    await storage.updateVideoJob(jobId, { status: 'processing' });
+    console.log(`[JOBS] Processing job ${jobId} (${job.videoId})`);
+
+    try {
+      const processingService = new VideoProcessingService();
+      const result = await processingService.processVideo(job.videoId, {
+        lang: job.language,
+        model: job.model,
+        attribution: { source: 'job', apiKeyId: job.apiKeyId, userId: job.userId }
+      });
+
+      if (!result.success) {
+        await storage.updateVideoJob(jobId, {
+          status: 'failed',
+          errorMessage: result.error || 'Processing failed',
+          transcriptLength: result.transcriptLength,
+          ...usageColumns(result.usage),
+          responseTime: Date.now() - startTime,
+          completedAt: new Date()
+        });
+        console.warn(`[JOBS] Job ${jobId} failed: ${result.error}`);
+        return;
+      }
+
+      await storage.updateVideoJob(jobId, {
+        status: 'completed',
+        tldr: result.tldr,
+        chapters: result.chapters,
+        transcriptLength: result.transcriptLength,
+        ...usageColumns(result.usage),
+        responseTime: Date.now() - startTime,
+        completedAt: new Date()
+      });
+      console.log(`[JOBS] Job ${jobId} completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+      await storage.updateVideoJob(jobId, {
+        status: 'failed',
+        errorMessage,
+        responseTime: Date.now() - startTime,
+        completedAt: new Date()
+      });
+      console.error(`[JOBS] Job ${jobId} failed:`, errorMessage);
+    }
+  }
+}
+
+export const jobQueue = new JobQueueService(
+  parseInt(process.env.JOB_CONCURRENCY || '2', 10)
+);
@@ -0,0 +1,345 @@
+import OpenAI from "openai";
+import type { ModelPricing } from "@shared/schema";
+
+export interface CompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  // Upstream model name as the provider knows it
+  model: string;
+}
+
+export interface CompletionResponse {
+  content: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * A chat completion backend. Every provider is asked for a JSON object answer.
+ */
+export interface LLMProvider {
+  readonly id: string;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface ModelDefinition {
+  id: string;
+  label: string;
+  provider: string;
+  providerModel: string;
+  fallbacks: string[];
+  pricing: ModelPricing;
+}
+
+export class ModelNotAvailableError extends Error {
+  constructor(model: string) {
+    super(`Model "${model}" is not configured on this server`);
+    this.name = 'ModelNotAvailableError';
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly id = 'openai';
+  private openai: OpenAI;
+  private apiKey: string;
+
+  constructor() {
+    this.apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "";
+    this.openai = new OpenAI({ apiKey: this.apiKey || "default_key" });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      max_tokens: 1000
+    });
+
+    const content = response.choices[0].message.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    return {
+      content,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens
+      }
+    };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions protocol (Groq, Ollama, vLLM, LM Studio...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly id: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly options: { requiresApiKey: boolean; timeoutMs: number }
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && (!this.options.requiresApiKey || !!this.apiKey);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt }
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.7,
+        max_tokens: 1000
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.id} API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error(`Empty response from ${this.id}`);
+    }
+
+    return {
+      content,
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens
+      }
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  private apiKey = process.env.ANTHROPIC_API_KEY || "";
+  private baseUrl = process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com";
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: 1000,
+        temperature: 0.7,
+        system: `${request.systemPrompt}\n\nRespond with a single JSON object and nothing else.`,
+        messages: [
+          { role: "user", content: request.userPrompt }
+        ]
+      }),
+      signal: AbortSignal.timeout(60000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.content?.find((block: any) => block.type === 'text')?.text;
+
+    if (!content) {
+      throw new Error('Empty response from Anthropic');
+    }
+
+    return {
+      content,
+      usage: data.usage && {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens
+      }
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider for tests and development.
+ * Builds chapters from the "[mm:ss]" lines present in the prompt.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+
+  isConfigured(): boolean {
+    return process.env.LLM_MOCK_ENABLED === 'true';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const timedLines = Array.from(request.userPrompt.matchAll(/^\[(\d{2}:\d{2}(?::\d{2})?)\] (.+)$/gm));
+
+    // Pick up to 5 evenly spaced lines as chapter starts
+    const chapterCount = Math.min(5, timedLines.length);
+    const chapters = Array.from({ length: chapterCount }, (_, index) => {
+      const [, time, text] = timedLines[Math.floor(index * timedLines.length / chapterCount)];
+      return { time, title: text.split(/\s+/).slice(0, 6).join(' ') };
+    });
+
+    const words = request.userPrompt.split(/\s+/).filter(Boolean);
+    const content = JSON.stringify({
+      tldr: `Mock summary (${words.length} words of input): ${timedLines.slice(0, 3).map(line => line[2]).join(' ') || words.slice(-20).join(' ')}`.trim(),
+      chapters
+    });
+
+    return {
+      content,
+      usage: {
+        promptTokens: Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4),
+        completionTokens: Math.ceil(content.length / 4)
+      }
+    };
+  }
+}
+
+const FREE: ModelPricing = { promptPerMillion: 0, completionPerMillion: 0 };
+
+// Built-in models. Fallback chains can be overridden with LLM_FALLBACKS, e.g. {"gpt-5":["llama3-8b-8192","mock"]},
+// and list prices (USD per million tokens) with LLM_PRICING, e.g. {"gpt-5":{"promptPerMillion":1.25,"completionPerMillion":10}}
+const MODELS: ModelDefinition[] = [
+  { id: 'gpt-5', label: 'GPT-5 (Latest)', provider: 'openai', providerModel: 'gpt-5', fallbacks: ['llama3-8b-8192'], pricing: { promptPerMillion: 1.25, completionPerMillion: 10 } },
+  { id: 'gpt-4o', label: 'GPT-4o', provider: 'openai', providerModel: 'gpt-4o', fallbacks: ['llama3-8b-8192'], pricing: { promptPerMillion: 2.5, completionPerMillion: 10 } },
+  { id: 'llama3-8b-8192', label: 'Llama 3 8B (Groq)', provider: 'groq', providerModel: 'llama3-8b-8192', fallbacks: [], pricing: { promptPerMillion: 0.05, completionPerMillion: 0.08 } },
+  { id: 'gemma2:2b', label: 'Gemma 2 (2B, local)', provider: 'ollama', providerModel: 'gemma2:2b', fallbacks: [], pricing: FREE },
+  { id: 'llama3:8b', label: 'Llama 3 (8B, local)', provider: 'ollama', providerModel: 'llama3:8b', fallbacks: ['llama3-8b-8192'], pricing: FREE },
+  { id: 'claude-3-5-haiku', label: 'Claude 3.5 Haiku', provider: 'anthropic', providerModel: 'claude-3-5-haiku-latest', fallbacks: [], pricing: { promptPerMillion: 0.8, completionPerMillion: 4 } },
+  { id: 'mock', label: 'Mock (deterministic)', provider: 'mock', providerModel: 'mock', fallbacks: [], pricing: FREE }
+];
+
+/**
+ * Maps model ids to providers and resolves per-model fallback chains
+ */
+export class ModelRegistry {
+  private providers = new Map<string, LLMProvider>();
+  private models = new Map<string, ModelDefinition>();
+
+  constructor(
+    providers: LLMProvider[],
+    models: ModelDefinition[],
+    fallbackOverrides: Record<string, string[]> = {},
+    pricingOverrides: Record<string, ModelPricing> = {}
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.id, provider);
+    }
+    for (const model of models) {
+      this.models.set(model.id, {
+        ...model,
+        fallbacks: fallbackOverrides[model.id] ?? model.fallbacks,
+        pricing: pricingOverrides[model.id] ?? model.pricing
+      });
+    }
+  }
+
+  /**
+   * USD cost of a completion at the model's list price; 0 for unknown models
+   */
+  costOf(modelId: string, promptTokens: number, completionTokens: number): number {
+    const pricing = this.models.get(modelId)?.pricing;
+    if (!pricing) return 0;
+    return (promptTokens * pricing.promptPerMillion + completionTokens * pricing.completionPerMillion) / 1_000_000;
+  }
+
+  isAvailable(modelId: string): boolean {
+    const model = this.models.get(modelId);
+    return !!model && !!this.providers.get(model.provider)?.isConfigured();
+  }
+
+  assertAvailable(modelId: string): void {
+    if (!this.isAvailable(modelId)) {
+      throw new ModelNotAvailableError(modelId);
+    }
+  }
+
+  /**
+   * Models whose provider is configured, in registry order
+   */
+  listAvailable(): ModelDefinition[] {
+    return Array.from(this.models.values()).filter(model => this.isAvailable(model.id));
+  }
+
+  /**
+   * The requested model followed by its configured fallbacks, skipping unavailable ones
+   */
+  resolveChain(modelId: string): Array<{ model: ModelDefinition; provider: LLMProvider }> {
+    this.assertAvailable(modelId);
+
+    const chain: Array<{ model: ModelDefinition; provider: LLMProvider }> = [];
+    const ids = [modelId, ...this.models.get(modelId)!.fallbacks];
+
+    for (const id of ids) {
+      const model = this.models.get(id);
+      if (!model || !this.isAvailable(id) || chain.some(entry => entry.model.id === id)) continue;
+      chain.push({ model, provider: this.providers.get(model.provider)! });
+    }
+
+    return chain;
+  }
+}
+
+function parseOverrides<T>(variable: 'LLM_FALLBACKS' | 'LLM_PRICING'): Record<string, T> {
+  const value = process.env[variable];
+  if (!value) return {};
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error(`Invalid ${variable}, ignoring:`, error);
+    return {};
+  }
+}
+
+export const modelRegistry = new ModelRegistry(
+  [
+    new OpenAIProvider(),
+    new OpenAICompatibleProvider('groq', 'https://api.groq.com/openai/v1', process.env.GROQ_API_KEY || "", {
+      requiresApiKey: true,
+      timeoutMs: 30000
+    }),
+    new OpenAICompatibleProvider('ollama', process.env.OLLAMA_BASE_URL ? `${process.env.OLLAMA_BASE_URL.replace(/\/$/, '')}/v1` : "", process.env.OLLAMA_API_KEY || "", {
+      requiresApiKey: false,
+      timeoutMs: 120000
+    }),
+    new AnthropicProvider(),
+    new MockProvider()
+  ],
+  MODELS,
+  parseOverrides<string[]>('LLM_FALLBACKS'),
+  parseOverrides<ModelPricing>('LLM_PRICING')
+);
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import type { Chapter } from "@shared/schema";
+import { LLMService, MAX_CHUNK_LENGTH, MIN_CHAPTER_GAP_SECONDS } from "./llm";
+import { ModelRegistry, type LLMProvider } from "./llm-providers";
+import { costReports } from "./costs";
+import type { TranscriptResult } from "./youtube";
+
+const failing: LLMProvider = {
+  id: "down",
+  isConfigured: () => true,
+  complete: async () => {
+    throw new Error("503 Service Unavailable");
+  },
+};
+
+const answering: LLMProvider = {
+  id: "up",
+  isConfigured: () => true,
+  complete: async () => ({
+    content: JSON.stringify({ tldr: "Summary", chapters: [] }),
+    usage: { promptTokens: 1000, completionTokens: 100 },
+  }),
+};
+
+describe("LLMService usage ledger", () => {
+  const registry = new ModelRegistry(
+    [failing, answering],
+    [
+      { id: "primary", label: "Primary", provider: "down", providerModel: "primary", fallbacks: ["backup"], pricing: { promptPerMillion: 10, completionPerMillion: 10 } },
+      { id: "backup", label: "Backup", provider: "up", providerModel: "backup", fallbacks: [], pricing: { promptPerMillion: 1, completionPerMillion: 2 } },
+    ],
+  );
+  const service = new LLMService(registry);
+
+  it("records a fallback answer under the model that answered, priced at its list price", async () => {
+    const { usage } = await service.summarizeCollection("Playlist", [{ title: "One", tldr: "First" }], "en", "primary", {
+      source: "playlist",
+      apiKeyId: "key-1",
+    });
+    expect(usage?.costUsd).toBeCloseTo(0.0012);
+
+    const report = await costReports.getReport(1, "model");
+    expect(report.rows).toEqual([expect.objectContaining({ key: "backup", requests: 1, totalTokens: 1100 })]);
+    expect(report.total.costUsd).toBeCloseTo(0.0012);
+  });
+});
+
+// Answers every prompt with the chapters script() returns for it and keeps the prompts it was sent
+function scriptedService(script: (prompt: string) => Chapter[] = () => [{ time: "00:00", title: "Intro" }]) {
+  const prompts: string[] = [];
+  const provider: LLMProvider = {
+    id: "scripted",
+    isConfigured: () => true,
+    complete: async request => {
+      prompts.push(request.userPrompt);
+      return { content: JSON.stringify({ tldr: "Summary", chapters: script(request.userPrompt) }) };
+    },
+  };
+  const registry = new ModelRegistry(
+    [provider],
+    [{ id: "scripted", label: "Scripted", provider: "scripted", providerModel: "scripted", fallbacks: [], pricing: { promptPerMillion: 0, completionPerMillion: 0 } }],
+  );
+
+  const service = new LLMService(registry);
+  const generate = (transcript: TranscriptResult, durationSeconds?: number) =>
+    service.generateTLDRAndChapters(transcript, "en", "scripted", { attribution: { source: "build" }, durationSeconds });
+
+  return { prompts, generate, partPrompts: () => prompts.filter(prompt => prompt.startsWith("This is part")) };
+}
+
+// Segments 10s apart whose "[mm:ss] text" line plus newline is exactly lineLength characters
+function segments(count: number, lineLength = 100, overlapSeconds = 0): TranscriptResult {
+  const list = Array.from({ length: count }, (_, index) => ({
+    start: index * 10,
+    end: index * 10 + 10 + overlapSeconds,
+    text: `s${String(index).padStart(3, "0")} ${"x".repeat(lineLength - 14)}`,
+  }));
+  return { text: list.map(segment => segment.text).join(" "), segments: list };
+}
+
+describe("LLMService transcript chunking", () => {
+  const linesPerChunk = MAX_CHUNK_LENGTH / 100;
+
+  it("sends a transcript that fills exactly MAX_CHUNK_LENGTH in one request", async () => {
+    const { prompts, partPrompts, generate } = scriptedService();
+    await generate(segments(linesPerChunk));
+
+    expect(prompts).toHaveLength(1);
+    expect(partPrompts()).toEqual([]);
+  });
+
+  it("starts a new part when the next line would overflow, then reduces the parts", async () => {
+    const { prompts, partPrompts, generate } = scriptedService();
+    await generate(segments(linesPerChunk + 1));
+
+    const parts = partPrompts();
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatch(/^This is part 1 of 2 of a long video transcript covering 00:00 - 13:20 of the video/);
+    expect(parts[0]).toContain("s079");
+    expect(parts[1]).toMatch(/^This is part 2 of 2 of a long video transcript covering 13:20 - 13:30 of the video/);
+    expect(parts[1]).not.toContain("s079");
+    expect(prompts[prompts.length - 1]).toMatch(/^The following are summaries of consecutive parts/);
+  });
+
+  it("moves a segment straddling the boundary whole into the next part, keeping overlapping timings", async () => {
+    const transcript = segments(linesPerChunk, 100, 5);
+    transcript.segments[linesPerChunk - 1].text += " spills over";
+
+    const { partPrompts, generate } = scriptedService();
+    await generate(transcript);
+
+    const parts = partPrompts();
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toContain("covering 00:00 - 13:15 of the video");
+    expect(parts[1]).toContain("covering 13:10 - 13:25 of the video");
+    transcript.segments.forEach(segment => {
+      expect(parts.filter(part => part.includes(segment.text.slice(0, 4)))).toHaveLength(1);
+    });
+    expect(parts[1]).toContain("[13:10] s079");
+  });
+
+  it("gives a segment longer than MAX_CHUNK_LENGTH a part of its own", async () => {
+    const transcript = segments(3);
+    transcript.segments[1].text = `s001 ${"y".repeat(MAX_CHUNK_LENGTH)}`;
+
+    const { partPrompts, generate } = scriptedService();
+    await generate(transcript);
+
+    const parts = partPrompts();
+    expect(parts).toHaveLength(3);
+    expect(parts.map(part => part.match(/\[\d{2}:\d{2}\] (s\d{3})/)?.[1])).toEqual(["s000", "s001", "s002"]);
+  });
+
+  it("splits an untimed transcript into MAX_CHUNK_LENGTH character windows", async () => {
+    const exact = scriptedService();
+    await exact.generate({ text: "a".repeat(MAX_CHUNK_LENGTH * 2), segments: [] });
+    expect(exact.partPrompts()).toHaveLength(2);
+
+    const over = scriptedService();
+    await over.generate({ text: "a".repeat(MAX_CHUNK_LENGTH * 2 + 1), segments: [] });
+    expect(over.partPrompts()).toHaveLength(3);
+    expect(over.partPrompts()[2]).toMatch(/^This is part 3 of 3 of a long video transcript\./);
+  });
+});
+
+describe("LLMService chapter merging", () => {
+  const clock = (seconds: number) =>
+    `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+
+  it("orders chapters from every part and drops near duplicates", async () => {
+    const { generate } = scriptedService(prompt => {
+      if (prompt.startsWith("This is part 1")) {
+        return [{ time: "00:00", title: "Intro" }, { time: "05:00", title: "Setup" }];
+      }
+      if (prompt.startsWith("This is part 2")) {
+        return [
+          { time: clock(300 + MIN_CHAPTER_GAP_SECONDS - 1), title: "Setup recap" },
+          { time: clock(300 + MIN_CHAPTER_GAP_SECONDS), title: "Demo" },
+          { time: "02:00", title: "Background" },
+          { time: "09:00", title: "demo" },
+          { time: "12:00", title: "Wrap-up" },
+        ];
+      }
+      return [];
+    });
+
+    const result = await generate({ text: "a".repeat(MAX_CHUNK_LENGTH + 1), segments: [] });
+
+    expect(result.chapters).toEqual([
+      { time: "00:00", title: "Intro" },
+      { time: "02:00", title: "Background" },
+      { time: "05:00", title: "Setup" },
+      { time: clock(300 + MIN_CHAPTER_GAP_SECONDS), title: "Demo" },
+      { time: "12:00", title: "Wrap-up" },
+    ]);
+  });
+});
+
+describe("LLMService chapter grounding", () => {
+  // Segment starts at 0, 12, 47, 95 and 130 seconds; the last one ends at 140
+  const transcript: TranscriptResult = {
+    text: "",
+    segments: [0, 12, 47, 95, 130].map((start, index, starts) => ({ start, end: starts[index + 1] ?? 140, text: `line ${index}` })),
+  };
+
+  async function ground(chapters: Chapter[], durationSeconds?: number): Promise<Chapter[]> {
+    const { generate } = scriptedService(() => chapters);
+    return (await generate(transcript, durationSeconds)).chapters;
+  }
+
+  it("forces the first chapter to 00:00", async () => {
+    expect(await ground([{ time: "00:40", title: "Opening" }, { time: "01:35", title: "Main" }])).toEqual([
+      { time: "00:00", title: "Opening" },
+      { time: "01:35", title: "Main" },
+    ]);
+  });
+
+  it("snaps each chapter to the nearest segment start", async () => {
+    expect(await ground([
+      { time: "00:00", title: "A" },
+      { time: "00:20", title: "B" },
+      { time: "00:40", title: "C" },
+      { time: "01:50", title: "D" },
+    ])).toEqual([
+      { time: "00:00", title: "A" },
+      { time: "00:12", title: "B" },
+      { time: "00:47", title: "C" },
+      { time: "01:35", title: "D" },
+    ]);
+  });
+
+  it("drops chapters past durationSeconds, or past the last segment without one", async () => {
+    const chapters = [{ time: "00:00", title: "A" }, { time: "01:35", title: "B" }, { time: "02:10", title: "C" }, { time: "02:30", title: "D" }];
+
+    expect((await ground(chapters, 100)).map(chapter => chapter.title)).toEqual(["A", "B"]);
+    expect((await ground(chapters)).map(chapter => chapter.title)).toEqual(["A", "B", "C"]);
+  });
+
+  it("sorts the chapters and keeps one per snapped start", async () => {
+    expect(await ground([
+      { time: "01:00", title: "Later" },
+      { time: "00:00", title: "Intro" },
+      { time: "00:03", title: "Also intro" },
+      { time: "00:45", title: "Earlier" },
+      { time: "00:15", title: "Early" },
+    ])).toEqual([
+      { time: "00:00", title: "Intro" },
+      { time: "00:12", title: "Early" },
+      { time: "00:47", title: "Later" },
+    ]);
+  });
+});
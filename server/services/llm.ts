@@ -1,121 +1,423 @@
-import OpenAI from "openai";
-import type { Chapter } from "@shared/schema";
+import type { Chapter, LlmUsageSource, ProgressCallback, TokenUsage } from "@shared/schema";
+import type { TranscriptResult } from "./youtube";
+import { modelRegistry, type ModelRegistry } from "./llm-providers";
+import { costReports } from "./costs";
+import { mapWithConcurrency } from "../utils/concurrency";
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
 const DEFAULT_MODEL = "gpt-5";
 
+// Bump whenever prompts or response post-processing change, so cached LLM results are not reused
+export const PROMPT_VERSION = "4";
+
+// Maximum transcript (or partial summary) characters sent to the model in a single request
+export const MAX_CHUNK_LENGTH = 8000;
+
+// Chunks and reduce batches of one video summarized at the same time
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '3', 10);
+
+// Chapters closer together than this (in seconds) are treated as duplicates when merging
+export const MIN_CHAPTER_GAP_SECONDS = 30;
+
+// Rough ratio used to estimate token counts when a provider doesn't report usage
+const CHARS_PER_TOKEN = 4;
+
 interface LLMResult {
   tldr: string;
   chapters: Chapter[];
+  // Summed over every completion made for this result, when the providers report it
+  usage?: TokenUsage;
+}
+
+// Who the completions of a call are charged to in the llmUsage ledger
+export interface UsageAttribution {
+  source: LlmUsageSource;
+  videoId?: string | null;
+  apiKeyId?: string | null;
+  userId?: string | null;
+}
+
+interface GenerateOptions {
+  attribution: UsageAttribution;
+  durationSeconds?: number;
+  onProgress?: ProgressCallback;
+}
+
+type TranscriptSegment = TranscriptResult['segments'][number];
+
+interface TranscriptChunk {
+  text: string;
+  segments: TranscriptSegment[];
+  start: number | null;
+  end: number | null;
+}
+
+/**
+ * Sum token usage and cost across completions; undefined when there is none to sum
+ */
+export function addUsage(...usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = usages.filter((usage): usage is TokenUsage => !!usage);
+  if (reported.length === 0) return undefined;
+
+  return reported.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    costUsd: total.costUsd + usage.costUsd,
+    estimated: total.estimated || usage.estimated
+  }), { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, estimated: false });
+}
+
+/**
+ * The apiLogs / videoProcessingJobs columns recording a result's LLM spend
+ */
+export function usageColumns(usage: TokenUsage | undefined) {
+  return {
+    promptTokens: usage?.promptTokens ?? null,
+    completionTokens: usage?.completionTokens ?? null,
+    costUsd: usage?.costUsd ?? null
+  };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
 }
 
 export class LLMService {
-  private openai: OpenAI;
-  private groqApiKey: string;
+  constructor(private readonly registry: ModelRegistry = modelRegistry) {}
 
-  constructor() {
-    this.openai = new OpenAI({ 
-      apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
+  async generateTLDRAndChapters(
+    transcript: TranscriptResult, 
+    language: string = 'ru', 
+    model: string = DEFAULT_MODEL,
+    options: GenerateOptions
+  ): Promise<LLMResult> {
+    const result = await this.summarize(transcript, language, model, options.attribution, options.onProgress);
+    const chapters = this.groundChapters(result.chapters, transcript.segments, options.durationSeconds);
+
+    options.onProgress?.({
+      type: 'llm',
+      status: 'succeeded',
+      message: `Generated summary with ${chapters.length} chapters`,
+      data: { chapters }
     });
-    this.groqApiKey = process.env.GROQ_API_KEY || "";
+
+    return {
+      tldr: result.tldr,
+      chapters,
+      usage: result.usage
+    };
   }
 
-  async generateTLDRAndChapters(
-    transcriptText: string, 
-    language: string = 'ru', 
-    model: string = DEFAULT_MODEL
+  /**
+   * Summarize a collection of already summarized videos (e.g. a playlist) into one TLDR
+   */
+  async summarizeCollection(
+    title: string | undefined,
+    videos: Array<{ title: string | null; tldr: string }>,
+    language: string,
+    model: string,
+    attribution: UsageAttribution
+  ): Promise<{ summary: string; usage?: TokenUsage }> {
+    const result = await this.complete(this.buildCollectionPrompt(title, videos, language), language, model, attribution);
+    return { summary: result.tldr, usage: result.usage };
+  }
+
+  private async summarize(
+    transcript: TranscriptResult,
+    language: string,
+    model: string,
+    attribution: UsageAttribution,
+    onProgress?: ProgressCallback
   ): Promise<LLMResult> {
-    // Truncate very long transcripts to fit in context window
-    const maxLength = 8000; // Conservative limit for context
-    const truncatedText = transcriptText.length > maxLength 
-      ? transcriptText.substring(0, maxLength) + "..." 
-      : transcriptText;
+    const chunks = this.chunkTranscript(transcript, MAX_CHUNK_LENGTH);
 
-    // Try OpenAI first, then fallback to Groq
-    try {
-      return await this.callOpenAI(truncatedText, language, model);
-    } catch (error) {
-      console.warn('OpenAI call failed, trying Groq:', error);
-      
-      if (this.groqApiKey) {
-        try {
-          return await this.callGroq(truncatedText, language);
-        } catch (groqError) {
-          console.error('Groq call also failed:', groqError);
-        }
+    if (chunks.length <= 1) {
+      onProgress?.({ type: 'llm', status: 'started', message: `Summarizing transcript with ${model}` });
+      return await this.complete(this.buildPrompt(transcript, language), language, model, attribution);
+    }
+
+    console.log(`[LLM] Transcript split into ${chunks.length} chunks (${transcript.text.length} chars)`);
+    onProgress?.({
+      type: 'llm',
+      status: 'started',
+      message: `Summarizing transcript in ${chunks.length} parts with ${model}`,
+      data: { totalChunks: chunks.length }
+    });
+
+    // Map: summarize and chapter each window independently
+    let summarizedChunks = 0;
+    const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, i) => {
+      const partial = await this.complete(this.buildChunkPrompt(chunk, i, chunks.length, language), language, model, attribution);
+      summarizedChunks++;
+      console.log(`[LLM] Chunk ${i + 1}/${chunks.length} done: ${partial.chapters.length} chapters`);
+      onProgress?.({
+        type: 'llm',
+        status: 'progress',
+        message: `Part ${i + 1}/${chunks.length} summarized (${summarizedChunks} done)`,
+        data: { chunk: i + 1, totalChunks: chunks.length, completedChunks: summarizedChunks, chapters: partial.chapters }
+      });
+      return partial;
+    });
+
+    // Reduce: merge partial summaries into one TLDR and one chapter list
+    onProgress?.({ type: 'llm', status: 'progress', message: 'Merging partial summaries' });
+    const merged = await this.reduceSummaries(partials.map(partial => partial.tldr), language, model, attribution);
+
+    return {
+      tldr: merged.tldr,
+      chapters: this.mergeChapters(partials.map(partial => partial.chapters)),
+      usage: addUsage(...partials.map(partial => partial.usage), merged.usage)
+    };
+  }
+
+  /**
+   * Combine consecutive part summaries into one TLDR. When they don't fit in one request,
+   * neighbouring summaries are combined in batches first and the batch summaries reduced again.
+   */
+  private async reduceSummaries(
+    summaries: string[],
+    language: string,
+    model: string,
+    attribution: UsageAttribution
+  ): Promise<{ tldr: string; usage?: TokenUsage }> {
+    const batches = this.batchSummaries(summaries, MAX_CHUNK_LENGTH);
+    if (batches.length === 1) {
+      const result = await this.complete(this.buildReducePrompt(summaries, language), language, model, attribution);
+      return { tldr: result.tldr, usage: result.usage };
+    }
+
+    console.log(`[LLM] Reducing ${summaries.length} summaries in ${batches.length} batches`);
+    const reduced = await mapWithConcurrency(batches, CHUNK_CONCURRENCY, batch =>
+      this.complete(this.buildReducePrompt(batch, language), language, model, attribution)
+    );
+    const result = await this.reduceSummaries(reduced.map(batch => batch.tldr), language, model, attribution);
+
+    return {
+      tldr: result.tldr,
+      usage: addUsage(...reduced.map(batch => batch.usage), result.usage)
+    };
+  }
+
+  /**
+   * Group consecutive summaries into batches of about maxLength characters. Every batch of a
+   * multi-batch split holds at least two summaries so each reduce level shrinks the list.
+   */
+  private batchSummaries(summaries: string[], maxLength: number): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentLength = 0;
+
+    for (const summary of summaries) {
+      if (current.length >= 2 && currentLength + summary.length > maxLength) {
+        batches.push(current);
+        current = [];
+        currentLength = 0;
       }
-      
-      throw new Error('All LLM providers failed');
+      current.push(summary);
+      currentLength += summary.length;
     }
+
+    // A lone trailing summary joins the previous batch
+    if (current.length === 1 && batches.length > 0) {
+      batches[batches.length - 1].push(current[0]);
+    } else if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
   }
 
-  private async callOpenAI(transcriptText: string, language: string, model: string): Promise<LLMResult> {
-    const prompt = this.buildPrompt(transcriptText, language);
-
-    const response = await this.openai.chat.completions.create({
-      model: model === 'gpt-5' ? 'gpt-5' : model, // Ensure we use the latest model
-      messages: [
-        {
-          role: "system",
-          content: this.getSystemPrompt(language)
-        },
-        {
-          role: "user",
-          content: prompt
+  /**
+   * Run the prompt through the model's provider, walking its fallback chain on failure.
+   * Usage is priced for the model that actually answered and written to the llmUsage ledger
+   * right away, so it is counted even if the caller later fails or retries.
+   */
+  private async complete(prompt: string, language: string, model: string, attribution: UsageAttribution): Promise<LLMResult> {
+    const chain = this.registry.resolveChain(model);
+    const systemPrompt = this.getSystemPrompt(language);
+
+    for (const { model: candidate, provider } of chain) {
+      try {
+        const response = await provider.complete({
+          systemPrompt,
+          userPrompt: prompt,
+          model: candidate.providerModel
+        });
+
+        if (candidate.id !== model) {
+          console.log(`[LLM] ${model} fell back to ${candidate.id}`);
         }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
-      max_tokens: 1000
-    });
 
-    const result = response.choices[0].message.content;
-    if (!result) {
-      throw new Error('Empty response from OpenAI');
+        const promptTokens = response.usage?.promptTokens ?? estimateTokens(systemPrompt + prompt);
+        const completionTokens = response.usage?.completionTokens ?? estimateTokens(response.content);
+        if (!response.usage) {
+          console.log(`[LLM] ${provider.id} reported no usage for ${candidate.id}, estimated ${promptTokens}+${completionTokens} tokens`);
+        }
+
+        const usage: TokenUsage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          costUsd: this.registry.costOf(candidate.id, promptTokens, completionTokens),
+          estimated: !response.usage
+        };
+        await costReports.recordUsage({
+          ...attribution,
+          model: candidate.id,
+          requestedModel: model,
+          promptTokens,
+          completionTokens,
+          costUsd: usage.costUsd,
+          estimated: usage.estimated
+        });
+
+        return { ...this.parseStructuredResponse(response.content), usage };
+      } catch (error) {
+        console.warn(`[LLM] ${provider.id} call for ${candidate.id} failed:`, error);
+      }
+    }
+
+    throw new Error('All LLM providers failed');
+  }
+
+  /**
+   * Split a transcript into context-sized windows, on segment boundaries when timing is available
+   */
+  private chunkTranscript(transcript: TranscriptResult, maxLength: number): TranscriptChunk[] {
+    // Without timed segments, fall back to plain character windows
+    if (transcript.segments.length === 0) {
+      const chunks: TranscriptChunk[] = [];
+      for (let offset = 0; offset < transcript.text.length; offset += maxLength) {
+        chunks.push({ text: transcript.text.substring(offset, offset + maxLength), segments: [], start: null, end: null });
+      }
+      return chunks;
+    }
+
+    const chunks: TranscriptChunk[] = [];
+    let current: TranscriptChunk | null = null;
+    let currentLength = 0;
+
+    for (const segment of transcript.segments) {
+      const text = segment.text.trim();
+      if (!text) continue;
+
+      // Budget by the timed line actually sent to the model
+      const lineLength = this.formatTimedLine(segment).length + 1;
+
+      if (current && currentLength + lineLength > maxLength) {
+        chunks.push(current);
+        current = null;
+      }
+
+      if (!current) {
+        current = { text, segments: [segment], start: segment.start, end: segment.end };
+        currentLength = lineLength;
+      } else {
+        current.text += ' ' + text;
+        current.segments.push(segment);
+        current.end = segment.end;
+        currentLength += lineLength;
+      }
+    }
+
+    if (current) {
+      chunks.push(current);
     }
 
-    return this.parseStructuredResponse(result);
+    return chunks;
   }
 
-  private async callGroq(transcriptText: string, language: string): Promise<LLMResult> {
-    const prompt = this.buildPrompt(transcriptText, language);
-
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.groqApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'llama3-8b-8192',
-        messages: [
-          {
-            role: "system",
-            content: this.getSystemPrompt(language)
-          },
-          {
-            role: "user", 
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      }),
-      signal: AbortSignal.timeout(30000)
-    });
+  /**
+   * Merge per-chunk chapter lists into one ordered list without near-duplicates
+   */
+  private mergeChapters(chapterLists: Chapter[][]): Chapter[] {
+    const sorted = chapterLists
+      .flat()
+      .map(chapter => ({ ...chapter, seconds: this.timestampToSeconds(chapter.time) }))
+      .filter(chapter => chapter.seconds !== null)
+      .sort((a, b) => a.seconds! - b.seconds!);
+
+    const merged: Array<Chapter & { seconds: number | null }> = [];
+    for (const chapter of sorted) {
+      const previous = merged[merged.length - 1];
+      if (previous) {
+        const tooClose = chapter.seconds! - previous.seconds! < MIN_CHAPTER_GAP_SECONDS;
+        const sameTitle = chapter.title.toLowerCase() === previous.title.toLowerCase();
+        if (tooClose || sameTitle) continue;
+      }
+      merged.push(chapter);
+    }
+
+    return merged.map(({ time, title }) => ({ time, title }));
+  }
+
+  /**
+   * Snap chapter times to real segment starts, drop times past the end of the video
+   * and enforce a strictly increasing list starting at 00:00
+   */
+  private groundChapters(chapters: Chapter[], segments: TranscriptSegment[], durationSeconds?: number): Chapter[] {
+    const lastSegmentEnd = segments.length > 0 ? segments[segments.length - 1].end : undefined;
+    const maxSeconds = durationSeconds ?? lastSegmentEnd;
+    const segmentStarts = segments.map(segment => Math.floor(segment.start)).sort((a, b) => a - b);
+
+    const candidates = chapters
+      .map(chapter => ({ title: chapter.title, seconds: this.timestampToSeconds(chapter.time) }))
+      .filter((chapter): chapter is { title: string; seconds: number } => chapter.seconds !== null)
+      .filter(chapter => maxSeconds === undefined || chapter.seconds <= maxSeconds)
+      .map(chapter => ({ ...chapter, seconds: this.snapToSegment(chapter.seconds, segmentStarts) }))
+      .sort((a, b) => a.seconds - b.seconds);
+
+    if (candidates.length === 0) {
+      return [];
+    }
 
-    if (!response.ok) {
-      throw new Error(`Groq API error: ${response.status}`);
+    candidates[0].seconds = 0;
+
+    const grounded: Array<{ title: string; seconds: number }> = [];
+    for (const chapter of candidates) {
+      const previous = grounded[grounded.length - 1];
+      if (previous && chapter.seconds <= previous.seconds) continue;
+      grounded.push(chapter);
     }
 
-    const data = await response.json();
-    const result = data.choices?.[0]?.message?.content;
+    return grounded.map(chapter => ({
+      time: this.formatTimestamp(chapter.seconds),
+      title: chapter.title
+    }));
+  }
+
+  private snapToSegment(seconds: number, segmentStarts: number[]): number {
+    if (segmentStarts.length === 0) {
+      return seconds;
+    }
+
+    let nearest = segmentStarts[0];
+    for (const start of segmentStarts) {
+      if (Math.abs(start - seconds) < Math.abs(nearest - seconds)) {
+        nearest = start;
+      }
+      if (start > seconds) break;
+    }
+    return nearest;
+  }
 
-    if (!result) {
-      throw new Error('Empty response from Groq');
+  /**
+   * Render segments as "[mm:ss] text" lines so the model can cite real offsets
+   */
+  private formatTimedTranscript(transcript: { text: string; segments: TranscriptSegment[] }): string {
+    if (transcript.segments.length === 0) {
+      return transcript.text;
     }
 
-    return this.parseStructuredResponse(result);
+    return transcript.segments
+      .filter(segment => segment.text.trim())
+      .map(segment => this.formatTimedLine(segment))
+      .join('\n');
+  }
+
+  private formatTimedLine(segment: TranscriptSegment): string {
+    return `[${this.formatTimestamp(segment.start)}] ${segment.text.trim()}`;
   }
 
   private getSystemPrompt(language: string): string {
@@ -154,14 +456,14 @@ Responde SOLO en español.`
     return prompts[language as keyof typeof prompts] || prompts['en'];
   }
 
-  private buildPrompt(transcriptText: string, language: string): string {
+  private buildPrompt(transcript: { text: string; segments: TranscriptSegment[] }, language: string): string {
     return `Analiza el siguiente transcript de video y genera:
 
 1. Un TLDR (resumen muy breve)
 2. Lista de capítulos con timestamps
 
 Transcript:
-${transcriptText}
+${this.formatTimedTranscript(transcript)}
 
 Responde en formato JSON exactamente así:
 {
@@ -181,10 +483,65 @@ Responde en formato JSON exactamente así:
 IMPORTANTE: 
 - Los timestamps deben estar en formato MM:SS o HH:MM:SS
 - Deben ser realistas basados en el contenido del transcript
+- Si las líneas del transcript empiezan con [MM:SS], usa SOLO esos tiempos para los capítulos
 - Los títulos de capítulos deben ser descriptivos y específicos
 - Responde SOLO en JSON, sin texto adicional`;
   }
 
+  private buildChunkPrompt(chunk: TranscriptChunk, index: number, total: number, language: string): string {
+    const range = chunk.start !== null && chunk.end !== null
+      ? ` covering ${this.formatTimestamp(chunk.start)} - ${this.formatTimestamp(chunk.end)} of the video`
+      : '';
+
+    return `This is part ${index + 1} of ${total} of a long video transcript${range}.
+
+${this.buildPrompt(chunk, language)}
+
+IMPORTANT:
+- Only create chapters for this part of the video
+- Chapter timestamps must fall within the time range of this part`;
+  }
+
+  private buildReducePrompt(summaries: string[], language: string): string {
+    const parts = summaries
+      .map((summary, index) => `Part ${index + 1}: ${summary}`)
+      .join('\n');
+
+    return `The following are summaries of consecutive parts of one video, in order:
+
+${parts}
+
+Combine them into a single TLDR (2-3 sentences) covering all of these parts in language "${language}".
+
+Respond in JSON exactly like this:
+{
+  "tldr": "Summary of the whole video",
+  "chapters": []
+}`;
+  }
+
+  private buildCollectionPrompt(
+    title: string | undefined,
+    videos: Array<{ title: string | null; tldr: string }>,
+    language: string
+  ): string {
+    const summaries = videos
+      .map((video, index) => `${index + 1}. ${video.title || 'Untitled'}: ${video.tldr}`)
+      .join('\n');
+
+    return `The following are summaries of the videos in the playlist${title ? ` "${title}"` : ''}, in order:
+
+${summaries}
+
+Write a single TLDR (3-5 sentences) describing what the playlist as a whole covers, in language "${language}".
+
+Respond in JSON exactly like this:
+{
+  "tldr": "Summary of the whole playlist",
+  "chapters": []
+}`;
+  }
+
   private parseStructuredResponse(responseText: string): LLMResult {
     try {
       const parsed = JSON.parse(responseText);
@@ -288,4 +645,23 @@ IMPORTANTE:
     // Default fallback
     return timestamp;
   }
+
+  private timestampToSeconds(timestamp: string): number | null {
+    const parts = timestamp.split(':').map(part => parseInt(part, 10));
+    if (parts.length < 2 || parts.length > 3 || parts.some(part => isNaN(part))) {
+      return null;
+    }
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+
+  private formatTimestamp(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = Math.floor(totalSeconds % 60);
+
+    if (hours > 0) {
+      return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    }
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
 }
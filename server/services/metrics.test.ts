@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MetricsRollupService, handleScheduled } from "./metrics";
+import { storage } from "../utils/storage";
+
+const DAY = "2026-03-10";
+
+async function logBuild(at: string) {
+  vi.setSystemTime(new Date(at));
+  await storage.createApiLog({ endpoint: "/api/build", method: "GET", statusCode: 200, responseTime: 100 });
+}
+
+async function youtubeRequests(day: string): Promise<number | null | undefined> {
+  const metrics = await storage.getProcessingMetrics(30);
+  return metrics.find(row => row.processingType === "youtube" && row.date.toISOString().startsWith(day))
+    ?.totalRequests;
+}
+
+describe("MetricsRollupService.rollup", () => {
+  const service = new MetricsRollupService(7, 0);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("recomputes a day rolled up before it ended and leaves it alone once closed", async () => {
+    await logBuild(`${DAY}T09:00:00Z`);
+    await service.rollup(new Date(`${DAY}T12:00:00Z`));
+    expect(await youtubeRequests(DAY)).toBe(1);
+
+    // Logged after the day's last rollup, which then didn't run again until days later
+    await logBuild(`${DAY}T18:00:00Z`);
+    vi.setSystemTime(new Date("2026-03-13T06:00:00Z"));
+    const days = await service.rollup(new Date("2026-03-13T06:00:00Z"));
+    expect(days).toContain(DAY);
+    expect(await youtubeRequests(DAY)).toBe(2);
+
+    vi.setSystemTime(new Date("2026-03-14T06:00:00Z"));
+    expect(await service.rollup(new Date("2026-03-14T06:00:00Z"))).toEqual(["2026-03-13", "2026-03-14"]);
+  });
+
+  it("always recomputes yesterday", async () => {
+    vi.setSystemTime(new Date("2026-03-14T06:00:00Z"));
+    const days = await service.rollup(new Date("2026-03-14T06:00:00Z"));
+    expect(days.slice(-2)).toEqual(["2026-03-13", "2026-03-14"]);
+  });
+});
+
+describe("handleScheduled", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rolls up as of the cron's scheduled time", async () => {
+    await logBuild("2026-04-01T10:00:00Z");
+    vi.setSystemTime(new Date("2026-04-02T00:00:05Z"));
+
+    await handleScheduled({ cron: "0 0 * * *", scheduledTime: Date.parse("2026-04-02T00:00:00Z") });
+    expect(await youtubeRequests("2026-04-01")).toBe(1);
+  });
+});
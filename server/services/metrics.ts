@@ -0,0 +1,226 @@
+import { storage } from "../utils/storage";
+import type { ProcessingMetrics, ProcessingType } from "@shared/schema";
+import { processingTypes } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// apiLogs endpoints that represent processing work; everything else (health, admin) is ignored
+const ENDPOINT_PROCESSING_TYPES: Record<string, ProcessingType> = {
+  '/api/build': 'youtube',
+  '/api/build/stream': 'youtube',
+  '/api/playlist': 'youtube',
+  '/api/audio': 'audio'
+};
+
+interface ProcessingSample {
+  type: ProcessingType;
+  success: boolean;
+  responseTime: number | null;
+  language: string | null;
+  model: string | null;
+}
+
+/**
+ * Minimal shape of the event Cloudflare passes to a Worker's scheduled() handler
+ */
+export interface ScheduledEventLike {
+  cron: string;
+  scheduledTime: number;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function mostCommon(values: Array<string | null>): string | null {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+
+  let top: string | null = null;
+  let topCount = 0;
+  counts.forEach((count, value) => {
+    if (count > topCount) {
+      top = value;
+      topCount = count;
+    }
+  });
+  return top;
+}
+
+/**
+ * Rolls apiLogs, videoProcessingJobs and batchJobs into one processingMetrics row per UTC day
+ * and processing type, so charts read a few dozen rows instead of scanning raw logs.
+ */
+export class MetricsRollupService {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<string[]>;
+
+  constructor(
+    private readonly backfillDays: number = 30,
+    private readonly intervalMs: number = 60 * 60 * 1000
+  ) {}
+
+  /**
+   * Roll up once now and then on every interval. Each run refreshes yesterday's and today's rows.
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) return;
+
+    const run = () => {
+      this.rollup().catch(error => console.error('[METRICS] Rollup failed:', error));
+    };
+    run();
+    this.timer = setInterval(run, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Recompute every day in the window that isn't closed yet (missing rows, or rows computed
+   * before the day ended), plus yesterday and today, whose late requests and jobs are still
+   * landing. Overlapping calls share the run already in progress. Resolves to the days written.
+   */
+  rollup(now: Date = new Date()): Promise<string[]> {
+    if (!this.running) {
+      this.running = this.runRollup(now).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  async getMetrics(days: number = 30): Promise<ProcessingMetrics[]> {
+    return await storage.getProcessingMetrics(days);
+  }
+
+  private async runRollup(now: Date): Promise<string[]> {
+    const today = startOfUtcDay(now);
+    const existing = await storage.getProcessingMetrics(this.backfillDays + 1);
+
+    // A day is closed once a row for every type was computed after the day ended
+    const closedRows = new Map<number, number>();
+    existing.forEach(metrics => {
+      const day = startOfUtcDay(metrics.date).getTime();
+      if (metrics.rolledUpAt && metrics.rolledUpAt.getTime() >= day + DAY_MS) {
+        closedRows.set(day, (closedRows.get(day) || 0) + 1);
+      }
+    });
+
+    const days: Date[] = [];
+    for (let offset = this.backfillDays; offset >= 0; offset--) {
+      const day = new Date(today.getTime() - offset * DAY_MS);
+      if (offset <= 1 || (closedRows.get(day.getTime()) || 0) < processingTypes.length) {
+        days.push(day);
+      }
+    }
+
+    for (const day of days) {
+      await this.rollupDay(day, now);
+    }
+
+    const written = days.map(day => day.toISOString().slice(0, 10));
+    console.log(`[METRICS] Rolled up ${written.length} day(s): ${written[0]}..${written[written.length - 1]}`);
+    return written;
+  }
+
+  /**
+   * Recompute and store the rows for one UTC day, one per processing type (zeros included, so
+   * the day counts as rolled up)
+   */
+  private async rollupDay(day: Date, now: Date): Promise<void> {
+    const end = new Date(day.getTime() + DAY_MS);
+    const samples = await this.collectSamples(day, end);
+
+    for (const type of processingTypes) {
+      const typeSamples = samples.filter(sample => sample.type === type);
+      const successfulRequests = typeSamples.filter(sample => sample.success).length;
+      const responseTimes = typeSamples
+        .map(sample => sample.responseTime)
+        .filter((time): time is number => time !== null);
+
+      await storage.createProcessingMetrics({
+        date: day,
+        processingType: type,
+        totalRequests: typeSamples.length,
+        successfulRequests,
+        failedRequests: typeSamples.length - successfulRequests,
+        avgResponseTime: responseTimes.length > 0
+          ? Math.round(responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length)
+          : 0,
+        topLanguage: mostCommon(typeSamples.map(sample => sample.language)),
+        topModel: mostCommon(typeSamples.map(sample => sample.model)),
+        rolledUpAt: now
+      });
+    }
+  }
+
+  private async collectSamples(start: Date, end: Date): Promise<ProcessingSample[]> {
+    const [logs, videoJobs, batches] = await Promise.all([
+      storage.getApiLogsBetween(start, end),
+      storage.getVideoJobsBetween(start, end),
+      storage.getBatchJobsBetween(start, end)
+    ]);
+
+    const samples: ProcessingSample[] = [];
+
+    logs.forEach(log => {
+      const type = ENDPOINT_PROCESSING_TYPES[log.endpoint];
+      if (type) {
+        samples.push({
+          type,
+          success: log.statusCode < 400,
+          responseTime: log.responseTime,
+          language: log.language,
+          model: log.model
+        });
+      }
+    });
+
+    // Async jobs aren't logged as API requests; only finished jobs count
+    videoJobs
+      .filter(job => job.status === 'completed' || job.status === 'failed')
+      .forEach(job => samples.push({
+        type: 'youtube',
+        success: job.status === 'completed',
+        responseTime: job.responseTime,
+        language: job.language,
+        model: job.model
+      }));
+
+    batches.forEach(batch => {
+      (batch.results || [])
+        .filter(item => item.status === 'completed' || item.status === 'failed')
+        .forEach(item => samples.push({
+          type: 'batch',
+          success: item.status === 'completed',
+          responseTime: typeof item.result?.responseTime === 'number' ? item.result.responseTime : null,
+          language: null,
+          model: item.result?.model || null
+        }));
+    });
+
+    return samples;
+  }
+}
+
+export const metricsRollup = new MetricsRollupService(
+  parseInt(process.env.METRICS_BACKFILL_DAYS || '30', 10),
+  parseInt(process.env.METRICS_ROLLUP_INTERVAL_MINUTES || '60', 10) * 60 * 1000
+);
+
+/**
+ * Entry point for the Workers cron trigger in wrangler.toml; the Node server relies on
+ * metricsRollup.start() instead
+ */
+export async function handleScheduled(event: ScheduledEventLike): Promise<void> {
+  console.log(`[METRICS] Cron ${event.cron} fired at ${new Date(event.scheduledTime).toISOString()}`);
+  await metricsRollup.rollup(new Date(event.scheduledTime));
+}
@@ -0,0 +1,228 @@
+import type { ProgressCallback, TokenUsage, YoutubeResponse } from "@shared/schema";
+import { YouTubeService, type VideoCollectionSource } from "./youtube";
+import { LLMService, PROMPT_VERSION, addUsage, type UsageAttribution } from "./llm";
+import { cacheService, CACHE_TIER_TTL_SECONDS, type CacheService } from "./cache";
+import { retryOperation } from "../utils/retry";
+import { mapWithConcurrency } from "../utils/concurrency";
+
+interface ProcessVideoOptions {
+  lang: string;
+  model: string;
+  // Charged for the LLM calls; the video id is filled in
+  attribution: UsageAttribution;
+  onProgress?: ProgressCallback;
+}
+
+interface ProcessCollectionOptions {
+  lang: string;
+  model: string;
+  attribution: UsageAttribution;
+  maxVideos: number;
+  concurrency: number;
+}
+
+export interface PlaylistResponse {
+  success: boolean;
+  playlistTitle: string | null;
+  source: VideoCollectionSource;
+  summary: string | null;
+  totalVideos: number;
+  successfulVideos: number;
+  videos: YoutubeResponse[];
+  model: string;
+  processedAt: string;
+  responseTime: number;
+  // Every video plus the collection summary
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * Runs the metadata -> transcript -> LLM pipeline shared by /api/build and background jobs
+ */
+export class VideoProcessingService {
+  private youtubeService = new YouTubeService();
+  private llmService = new LLMService();
+
+  constructor(private readonly cache: CacheService = cacheService) {}
+
+  /**
+   * Process a single video. Resolves with `success: false` when no transcript is available,
+   * rejects on any other failure.
+   */
+  async processVideo(videoId: string, options: ProcessVideoOptions): Promise<YoutubeResponse> {
+    const startTime = Date.now();
+    const { onProgress } = options;
+
+    // Get video metadata
+    onProgress?.({ type: 'metadata', status: 'started', message: 'Fetching video metadata' });
+    const { value: metadata, cached: metadataCached } = await this.cache.remember(
+      this.cache.metadataKey(videoId),
+      CACHE_TIER_TTL_SECONDS.metadata,
+      () => retryOperation(
+        () => this.youtubeService.getVideoMetadata(videoId),
+        { maxRetries: 3, delay: 1000, onRetry: this.reportRetry('metadata', onProgress) }
+      )
+    );
+    onProgress?.({
+      type: 'metadata',
+      status: metadata ? 'succeeded' : 'failed',
+      message: metadata
+        ? `Metadata ${metadataCached ? 'served from cache' : 'fetched'}: ${metadata.title}`
+        : 'Metadata unavailable, continuing without it',
+      data: metadata
+    });
+
+    // Get transcript with retry logic; failed lookups are not cached so they are retried next time
+    const captionLanguages = [options.lang, 'en'];
+    const { value: transcript, cached: transcriptCached } = await this.cache.remember(
+      this.cache.transcriptKey(videoId, captionLanguages),
+      CACHE_TIER_TTL_SECONDS.transcript,
+      () => retryOperation(
+        () => this.youtubeService.getTranscript(videoId, captionLanguages, onProgress),
+        { maxRetries: 3, delay: 1000, onRetry: this.reportRetry('transcript', onProgress) }
+      ),
+      result => !!result.text
+    );
+    if (transcriptCached) {
+      onProgress?.({
+        type: 'transcript',
+        status: 'succeeded',
+        message: `Transcript served from cache (${transcript.text.length} characters)`,
+        data: { cached: true, length: transcript.text.length }
+      });
+    }
+
+    if (!transcript.text || transcript.text.length < 50) {
+      return {
+        success: false,
+        videoId,
+        videoTitle: metadata?.title || null,
+        tldr: null,
+        chapters: [],
+        model: options.model,
+        processedAt: new Date().toISOString(),
+        error: `No transcript available. Reason: ${transcript.reason || 'unknown'}`,
+        responseTime: Date.now() - startTime,
+        transcriptLength: 0
+      };
+    }
+
+    // Generate TLDR and chapters using LLM
+    const { value: llmResult, cached: llmCached } = await this.cache.remember(
+      this.cache.llmKey(transcript.text, PROMPT_VERSION, options.model, options.lang),
+      CACHE_TIER_TTL_SECONDS.llm,
+      () => retryOperation(
+        () => this.llmService.generateTLDRAndChapters(transcript, options.lang, options.model, {
+          attribution: { ...options.attribution, videoId },
+          durationSeconds: metadata?.durationSeconds,
+          onProgress
+        }),
+        { maxRetries: 2, delay: 2000, onRetry: this.reportRetry('llm', onProgress) }
+      )
+    );
+    if (llmCached) {
+      onProgress?.({
+        type: 'llm',
+        status: 'succeeded',
+        message: `Summary served from cache (${llmResult.chapters.length} chapters)`,
+        data: { cached: true }
+      });
+    }
+
+    return {
+      success: true,
+      videoId,
+      videoTitle: metadata?.title || null,
+      tldr: llmResult.tldr,
+      chapters: llmResult.chapters,
+      model: options.model,
+      processedAt: new Date().toISOString(),
+      responseTime: Date.now() - startTime,
+      transcriptLength: transcript.text.length,
+      durationSeconds: metadata?.durationSeconds ?? null,
+      usage: llmCached ? undefined : llmResult.usage
+    };
+  }
+
+  /**
+   * Process every video of a playlist or channel and summarize the collection as a whole
+   */
+  async processCollection(url: string, options: ProcessCollectionOptions): Promise<PlaylistResponse> {
+    const startTime = Date.now();
+
+    const collection = await retryOperation(
+      () => this.youtubeService.getVideoCollection(url, options.maxVideos),
+      { maxRetries: 2, delay: 1000 }
+    );
+
+    const videos = await mapWithConcurrency(collection.videoIds, options.concurrency, async (videoId) => {
+      try {
+        return await this.processVideo(videoId, {
+          lang: options.lang,
+          model: options.model,
+          attribution: options.attribution
+        });
+      } catch (error) {
+        return {
+          success: false,
+          videoId,
+          videoTitle: null,
+          tldr: null,
+          chapters: [],
+          model: options.model,
+          processedAt: new Date().toISOString(),
+          responseTime: 0,
+          transcriptLength: 0,
+          error: error instanceof Error ? error.message : 'Internal server error'
+        };
+      }
+    });
+
+    const summarized = videos.filter(video => video.success && video.tldr);
+    let summary: string | null = null;
+    let summaryUsage: TokenUsage | undefined;
+    let error: string | undefined;
+
+    if (summarized.length > 0) {
+      try {
+        ({ summary, usage: summaryUsage } = await this.llmService.summarizeCollection(
+          collection.title,
+          summarized.map(video => ({ title: video.videoTitle, tldr: video.tldr! })),
+          options.lang,
+          options.model,
+          options.attribution
+        ));
+      } catch (summaryError) {
+        console.error('[PLAYLIST] Failed to summarize collection:', summaryError);
+        error = 'Failed to generate playlist summary';
+      }
+    } else {
+      error = 'No videos in the playlist could be summarized';
+    }
+
+    return {
+      success: summarized.length > 0,
+      playlistTitle: collection.title || null,
+      source: collection.source,
+      summary,
+      totalVideos: videos.length,
+      successfulVideos: summarized.length,
+      videos,
+      model: options.model,
+      processedAt: new Date().toISOString(),
+      responseTime: Date.now() - startTime,
+      usage: addUsage(...videos.map(video => video.usage), summaryUsage),
+      ...(error ? { error } : {})
+    };
+  }
+
+  private reportRetry(operation: string, onProgress?: ProgressCallback) {
+    return (attempt: number, error: Error, nextDelay: number) => onProgress?.({
+      type: 'retry',
+      status: 'failed',
+      message: `${operation} attempt ${attempt} failed (${error.message}), retrying in ${nextDelay}ms`,
+      data: { operation, attempt, delay: nextDelay, error: error.message }
+    });
+  }
+}
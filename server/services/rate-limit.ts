@@ -0,0 +1,186 @@
+import { z } from "zod";
+import { storage } from "../utils/storage";
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export interface RateLimitRule {
+  // Largest burst a client can send
+  capacity: number;
+  // Tokens added back per minute, i.e. the sustained request rate
+  refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  // Whole tokens left after this request
+  remaining: number;
+  // Until the bucket is full again
+  resetMs: number;
+  // Until the next token is available; 0 when the request was allowed
+  retryAfterMs: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Take one token from the bucket stored under key, refilling it for the time elapsed first
+  consume(key: string, rule: RateLimitRule, now?: number): Promise<RateLimitDecision>;
+}
+
+// Route groups with their own buckets, and their defaults; override with RATE_LIMITS JSON
+export const DEFAULT_RATE_LIMIT_RULES = {
+  build: { capacity: 30, refillPerMinute: 30 },
+  playlist: { capacity: 5, refillPerMinute: 5 },
+  batch: { capacity: 5, refillPerMinute: 5 },
+  audio: { capacity: 10, refillPerMinute: 10 },
+  auth: { capacity: 10, refillPerMinute: 10 }
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitedRoute = keyof typeof DEFAULT_RATE_LIMIT_RULES;
+
+const rateLimitRuleSchema = z.object({
+  capacity: z.number().int().positive(),
+  refillPerMinute: z.number().positive()
+});
+
+/**
+ * Refill a bucket for the time elapsed since it was last touched and try to take one token.
+ * A bucket seen for the first time starts full.
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const tokensPerMs = rule.refillPerMinute / 60000;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(rule.capacity, state.tokens + elapsed * tokensPerMs) : rule.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.capacity - tokens) / tokensPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / tokensPerMs)
+    }
+  };
+}
+
+/**
+ * Buckets in process memory; limits are per server instance and reset on restart
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, BucketState & { expiresAt: number }>();
+
+  constructor() {
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  async consume(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitDecision> {
+    const { state, decision } = takeToken(this.buckets.get(key), rule, now);
+    this.buckets.set(key, { ...state, expiresAt: now + decision.resetMs });
+    return decision;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    Array.from(this.buckets.entries()).forEach(([key, bucket]) => {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Buckets in the configured storage, so limits hold across restarts and instances sharing a
+ * database. Updates to one key are serialized within a process; instances racing on the same
+ * key may each admit a request, so the limit is approximate across instances.
+ */
+export class StorageRateLimitStore implements RateLimitStore {
+  readonly name = 'storage';
+  private pending = new Map<string, Promise<void>>();
+
+  constructor() {
+    setInterval(() => {
+      storage.deleteExpiredRateLimitBuckets()
+        .catch(error => console.error('[RATE_LIMIT] Failed to prune buckets:', error));
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  consume(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitDecision> {
+    const run = (this.pending.get(key) || Promise.resolve()).then(() => this.consumeNow(key, rule, now));
+
+    // The next call for this key waits for this one, whether it succeeds or not
+    const settled = run.then(() => undefined, () => undefined);
+    this.pending.set(key, settled);
+    settled.then(() => {
+      if (this.pending.get(key) === settled) {
+        this.pending.delete(key);
+      }
+    });
+    return run;
+  }
+
+  private async consumeNow(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    const bucket = await storage.getRateLimitBucket(key);
+    const { state, decision } = takeToken(
+      bucket && { tokens: bucket.tokens, updatedAt: bucket.updatedAt.getTime() },
+      rule,
+      now
+    );
+
+    await storage.setRateLimitBucket({
+      key,
+      tokens: state.tokens,
+      updatedAt: new Date(state.updatedAt),
+      expiresAt: new Date(now + decision.resetMs)
+    });
+    return decision;
+  }
+}
+
+/**
+ * Per-route rules: the defaults, with any routes named in RATE_LIMITS replaced, e.g.
+ * RATE_LIMITS='{"build":{"capacity":60,"refillPerMinute":60}}'
+ */
+export function loadRateLimitRules(overrides: string | undefined = process.env.RATE_LIMITS): Record<RateLimitedRoute, RateLimitRule> {
+  const rules: Record<RateLimitedRoute, RateLimitRule> = { ...DEFAULT_RATE_LIMIT_RULES };
+  if (!overrides) return rules;
+
+  const parsed = z.record(rateLimitRuleSchema).parse(JSON.parse(overrides));
+  Object.entries(parsed).forEach(([route, rule]) => {
+    if (!(route in rules)) {
+      console.warn(`[RATE_LIMIT] Ignoring RATE_LIMITS entry for unknown route group "${route}"`);
+      return;
+    }
+    rules[route as RateLimitedRoute] = rule;
+  });
+  return rules;
+}
+
+function createRateLimitStore(): RateLimitStore {
+  const driver = process.env.RATE_LIMIT_STORE || 'memory';
+  switch (driver) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'storage':
+      return new StorageRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${driver}`);
+  }
+}
+
+export const rateLimitRules = loadRateLimitRules();
+export const rateLimitStore = createRateLimitStore();
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { YouTubeService, type VideoCollectionSource } from "./youtube";
+
+describe("YouTubeService.parseCollectionUrl", () => {
+  const service = new YouTubeService();
+
+  it.each<[string, VideoCollectionSource | null]>([
+    ["https://www.youtube.com/playlist?list=PL123", { type: "playlist", playlistId: "PL123" }],
+    ["https://m.youtube.com/playlist?list=PL123", { type: "playlist", playlistId: "PL123" }],
+    ["https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123", { type: "playlist", playlistId: "PL123" }],
+    ["https://youtu.be/dQw4w9WgXcQ?list=PL123", { type: "playlist", playlistId: "PL123" }],
+    ["https://www.youtube.com/@somechannel", { type: "channel", handle: "@somechannel" }],
+    ["www.youtube.com/@somechannel/videos", { type: "channel", handle: "@somechannel" }],
+    ["https://www.youtube.com/channel/UC123", { type: "channel", channelId: "UC123" }],
+    ["https://www.youtube.com/user/someone", { type: "channel", username: "someone" }],
+    ["https://www.youtube.com/c/someone", { type: "channel", username: "someone" }],
+    ["https://www.youtube.com/watch?v=dQw4w9WgXcQ", null],
+    ["dQw4w9WgXcQ", null],
+    ["https://www.youtube.com/feed/trending", null],
+    ["https://notyoutube.com/playlist?list=PL123", null],
+    ["https://youtube.com.evil.example/@somechannel", null],
+    ["https://example.com/channel/UC123", null],
+    ["not a url", null],
+  ])("parses %s", (url, expected) => {
+    expect(service.parseCollectionUrl(url)).toEqual(expected);
+  });
+});
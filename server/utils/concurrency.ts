@@ -0,0 +1,23 @@
+/**
+ * Map over items with at most `limit` operations in flight, preserving input order in the result
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  operation: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await operation(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,25 @@
+import { and, eq, isNull, or, type Column, type SQL } from "drizzle-orm";
+
+// Narrows a listing to what one caller may see (see canAccess): records created anonymously, by
+// the given key or for the given user
+export interface RecordOwner {
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export function isOwnedBy(record: { userId: string | null; apiKeyId: string | null }, owner: RecordOwner | undefined): boolean {
+  if (!owner || (!record.userId && !record.apiKeyId)) return true;
+  return (!!owner.apiKeyId && record.apiKeyId === owner.apiKeyId) || (!!owner.userId && record.userId === owner.userId);
+}
+
+/**
+ * SQL counterpart of isOwnedBy for the Postgres and SQLite storages; no condition without an owner
+ */
+export function ownedBy(columns: { userId: Column; apiKeyId: Column }, owner: RecordOwner | undefined): SQL | undefined {
+  if (!owner) return undefined;
+  return or(
+    and(isNull(columns.userId), isNull(columns.apiKeyId)),
+    owner.apiKeyId ? eq(columns.apiKeyId, owner.apiKeyId) : undefined,
+    owner.userId ? eq(columns.userId, owner.userId) : undefined
+  );
+}
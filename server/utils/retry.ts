@@ -3,13 +3,14 @@ interface RetryOptions {
   delay: number;
   backoffMultiplier?: number;
   maxDelay?: number;
+  onRetry?: (attempt: number, error: Error, nextDelay: number) => void;
 }
 
 export async function retryOperation<T>(
   operation: () => Promise<T>,
   options: RetryOptions
 ): Promise<T> {
-  const { maxRetries, delay, backoffMultiplier = 2, maxDelay = 30000 } = options;
+  const { maxRetries, delay, backoffMultiplier = 2, maxDelay = 30000, onRetry } = options;
   
   let lastError: Error;
   let currentDelay = delay;
@@ -26,6 +27,7 @@ export async function retryOperation<T>(
       }
 
       console.warn(`Operation failed (attempt ${attempt + 1}/${maxRetries + 1}):`, lastError.message);
+      onRetry?.(attempt + 1, lastError, currentDelay);
       
       // Wait before retrying
       await new Promise(resolve => setTimeout(resolve, currentDelay));
@@ -0,0 +1,64 @@
+interface Flight<T, E> {
+  promise: Promise<T>;
+  events: E[];
+  listeners: Set<(event: E) => void>;
+}
+
+export interface SingleFlightStats {
+  executions: number;
+  coalesced: number;
+  inFlight: number;
+}
+
+/**
+ * Deduplicates concurrent calls with the same key: the first caller runs the operation and
+ * later callers await the same promise. Events published by the operation reach every caller,
+ * late joiners first receive the events they missed.
+ */
+export class SingleFlight<T, E = never> {
+  private flights = new Map<string, Flight<T, E>>();
+  private executions = 0;
+  private coalesced = 0;
+
+  async run(
+    key: string,
+    operation: (publish: (event: E) => void) => Promise<T>,
+    listener?: (event: E) => void
+  ): Promise<{ value: T; shared: boolean }> {
+    const existing = this.flights.get(key);
+    if (existing) {
+      this.coalesced++;
+      if (listener) {
+        existing.events.forEach(listener);
+        existing.listeners.add(listener);
+      }
+
+      try {
+        return { value: await existing.promise, shared: true };
+      } finally {
+        if (listener) existing.listeners.delete(listener);
+      }
+    }
+
+    const events: E[] = [];
+    const listeners = new Set(listener ? [listener] : []);
+    const publish = (event: E) => {
+      events.push(event);
+      listeners.forEach(notify => notify(event));
+    };
+
+    this.executions++;
+    const promise = operation(publish).finally(() => this.flights.delete(key));
+    this.flights.set(key, { promise, events, listeners });
+
+    return { value: await promise, shared: false };
+  }
+
+  getStats(): SingleFlightStats {
+    return {
+      executions: this.executions,
+      coalesced: this.coalesced,
+      inFlight: this.flights.size
+    };
+  }
+}
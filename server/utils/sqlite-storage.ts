@@ -0,0 +1,693 @@
+import fs from "fs";
+import path from "path";
+import session from "express-session";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq, desc, count, avg, sql, lt, gte, and, isNotNull, inArray } from "drizzle-orm";
+import type {
+  User,
+  InsertUser,
+  VideoProcessingJob,
+  InsertVideoJob,
+  ApiLog,
+  InsertApiLog,
+  AudioUpload,
+  InsertAudioUpload,
+  BatchJob,
+  InsertBatchJob,
+  ProcessingMetrics,
+  InsertProcessingMetrics,
+  CacheEntry,
+  InsertCacheEntry,
+  ApiKey,
+  InsertApiKey,
+  ApiKeyUsage,
+  RateLimitBucket,
+  LlmUsage,
+  InsertLlmUsage,
+  ApiLogStats,
+  AnalyticsTimeseriesPoint
+} from "@shared/schema";
+import {
+  users,
+  videoProcessingJobs,
+  apiLogs,
+  audioUploads,
+  batchJobs,
+  processingMetrics,
+  cacheEntries,
+  apiKeys,
+  apiKeyUsage,
+  sessions,
+  rateLimitBuckets,
+  llmUsage
+} from "@shared/sqlite-schema";
+import type { IStorage } from "./storage";
+import { ownedBy, type RecordOwner } from "./record-owner";
+
+const BUCKET_MS = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+const SESSION_PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+
+// Sessions whose cookie has no expiry (browser-session cookies) are kept this long
+const DEFAULT_SESSION_TTL_MS = BUCKET_MS.day;
+
+// Linear interpolation between closest ranks of an ascending list, matching Postgres percentile_cont
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = fraction * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * express-session store kept in the sessions table, the SQLite counterpart of connect-pg-simple.
+ * better-sqlite3 is synchronous, so each callback fires before the method returns.
+ */
+class SQLiteSessionStore extends session.Store {
+  constructor(private readonly db: ReturnType<typeof drizzle>) {
+    super();
+    setInterval(() => this.prune(), SESSION_PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (error: any, session?: session.SessionData | null) => void): void {
+    try {
+      const row = this.db
+        .select()
+        .from(sessions)
+        .where(and(eq(sessions.sid, sid), gte(sessions.expire, new Date())))
+        .get();
+      callback(null, row ? row.sess as session.SessionData : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (error?: any) => void): void {
+    try {
+      const expire = this.expiryOf(sess);
+      this.db
+        .insert(sessions)
+        .values({ sid, sess, expire })
+        .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire } })
+        .run();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: (error?: any) => void): void {
+    try {
+      this.db.delete(sessions).where(eq(sessions.sid, sid)).run();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    try {
+      this.db.update(sessions).set({ expire: this.expiryOf(sess) }).where(eq(sessions.sid, sid)).run();
+    } catch (error) {
+      console.error(`[STORAGE] Failed to touch session ${sid}:`, error);
+    }
+    callback?.();
+  }
+
+  private expiryOf(sess: session.SessionData): Date {
+    return sess.cookie?.expires
+      ? new Date(sess.cookie.expires)
+      : new Date(Date.now() + DEFAULT_SESSION_TTL_MS);
+  }
+
+  private prune(): void {
+    try {
+      this.db.delete(sessions).where(lt(sessions.expire, new Date())).run();
+    } catch (error) {
+      console.error('[STORAGE] Failed to prune expired sessions:', error);
+    }
+  }
+}
+
+/**
+ * IStorage backed by a local SQLite file, for deployments without Postgres. Pending migrations
+ * from migrations/sqlite are applied when the storage is created.
+ */
+export class SQLiteStorage implements IStorage {
+  readonly sessionStore: session.Store;
+  private db: ReturnType<typeof drizzle>;
+
+  constructor(filePath: string = process.env.SQLITE_PATH || 'data/tldr.sqlite') {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    const sqlite = new Database(filePath);
+    sqlite.pragma('journal_mode = WAL');
+    this.db = drizzle(sqlite);
+
+    migrate(this.db, { migrationsFolder: path.resolve(process.env.SQLITE_MIGRATIONS_DIR || 'migrations/sqlite') });
+    this.sessionStore = new SQLiteSessionStore(this.db);
+    console.log(`[STORAGE] SQLite database ready at ${filePath}`);
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  // Video processing jobs
+  async createVideoJob(insertJob: InsertVideoJob): Promise<VideoProcessingJob> {
+    const result = await this.db.insert(videoProcessingJobs).values(insertJob).returning();
+    return result[0];
+  }
+
+  async updateVideoJob(id: string, job: Partial<VideoProcessingJob>): Promise<VideoProcessingJob> {
+    const result = await this.db
+      .update(videoProcessingJobs)
+      .set(job)
+      .where(eq(videoProcessingJobs.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error('Video job not found');
+    }
+    return result[0];
+  }
+
+  async getVideoJob(id: string): Promise<VideoProcessingJob | undefined> {
+    const result = await this.db.select().from(videoProcessingJobs).where(eq(videoProcessingJobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getVideoJobsBetween(start: Date, end: Date): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(and(gte(videoProcessingJobs.createdAt, start), lt(videoProcessingJobs.createdAt, end)));
+  }
+
+  async getVideoJobsByUser(userId: string, limit: number): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(eq(videoProcessingJobs.userId, userId))
+      .orderBy(desc(videoProcessingJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getVideoJobsByStatus(statuses: string[]): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(inArray(videoProcessingJobs.status, statuses))
+      .orderBy(videoProcessingJobs.createdAt);
+  }
+
+  // API logs
+  async createApiLog(insertLog: InsertApiLog): Promise<ApiLog> {
+    const result = await this.db.insert(apiLogs).values(insertLog).returning();
+    return result[0];
+  }
+
+  async getApiLogs(limit = 100): Promise<ApiLog[]> {
+    return await this.db.select().from(apiLogs).orderBy(desc(apiLogs.createdAt)).limit(limit);
+  }
+
+  async getApiLogsBetween(start: Date, end: Date): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(and(gte(apiLogs.createdAt, start), lt(apiLogs.createdAt, end)));
+  }
+
+  async getUserVideoLogs(userId: string, endpoints: string[], limit: number): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(and(
+        eq(apiLogs.userId, userId),
+        inArray(apiLogs.endpoint, endpoints),
+        lt(apiLogs.statusCode, 400),
+        isNotNull(apiLogs.videoId)
+      ))
+      .orderBy(desc(apiLogs.createdAt))
+      .limit(limit);
+  }
+
+  async getApiLogStats(since: Date): Promise<ApiLogStats> {
+    const result = await this.db
+      .select({
+        total: count(),
+        successful: sql<number>`count(*) filter (where ${apiLogs.statusCode} < 400)`,
+        avg: avg(apiLogs.responseTime),
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since));
+
+    // SQLite has no percentile_cont, so percentiles are interpolated over the sorted times
+    const responseTimes = (await this.db
+      .select({ responseTime: apiLogs.responseTime })
+      .from(apiLogs)
+      .where(and(gte(apiLogs.createdAt, since), isNotNull(apiLogs.responseTime)))
+      .orderBy(apiLogs.responseTime))
+      .map(row => row.responseTime!);
+
+    const totalRequests = Number(result[0]?.total) || 0;
+    const successfulRequests = Number(result[0]?.successful) || 0;
+
+    return {
+      totalRequests,
+      successfulRequests,
+      errorRate: totalRequests > 0 ? ((totalRequests - successfulRequests) / totalRequests) * 100 : 0,
+      averageResponseTime: Number(result[0]?.avg) || 0,
+      p50ResponseTime: percentile(responseTimes, 0.5),
+      p95ResponseTime: percentile(responseTimes, 0.95),
+      p99ResponseTime: percentile(responseTimes, 0.99),
+    };
+  }
+
+  async getMostRequestedVideos(limit: number, since?: Date): Promise<Array<{ videoId: string; count: number }>> {
+    const result = await this.db
+      .select({ videoId: apiLogs.videoId, count: count() })
+      .from(apiLogs)
+      .where(since ? and(isNotNull(apiLogs.videoId), gte(apiLogs.createdAt, since)) : isNotNull(apiLogs.videoId))
+      .groupBy(apiLogs.videoId)
+      .orderBy(desc(count()))
+      .limit(limit);
+
+    return result.map(row => ({ videoId: row.videoId!, count: Number(row.count) }));
+  }
+
+  async getApiLogTimeseries(since: Date, bucket: "minute" | "hour" | "day"): Promise<AnalyticsTimeseriesPoint[]> {
+    // created_at is epoch milliseconds and buckets are UTC-aligned, so truncating the quotient
+    // gives the bucket start (bound numbers arrive as REAL, hence the cast)
+    const bucketMs = BUCKET_MS[bucket];
+    const bucketExpression = sql<number>`cast(${apiLogs.createdAt} / ${bucketMs} as integer) * ${bucketMs}`;
+    const result = await this.db
+      .select({
+        bucket: bucketExpression,
+        total: count(),
+        successful: sql<number>`count(*) filter (where ${apiLogs.statusCode} < 400)`,
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since))
+      .groupBy(bucketExpression)
+      .orderBy(bucketExpression);
+
+    return result.map(row => {
+      const total = Number(row.total);
+      const successful = Number(row.successful);
+      return { bucket: new Date(row.bucket).toISOString(), total, successful, failed: total - successful };
+    });
+  }
+
+  async getApiLogBreakdown(since: Date, field: "language" | "model", limit: number): Promise<Array<{ value: string; count: number }>> {
+    const column = field === "language" ? apiLogs.language : apiLogs.model;
+    const result = await this.db
+      .select({ value: column, count: count() })
+      .from(apiLogs)
+      .where(and(isNotNull(column), gte(apiLogs.createdAt, since)))
+      .groupBy(column)
+      .orderBy(desc(count()))
+      .limit(limit);
+
+    return result.map(row => ({ value: row.value!, count: Number(row.count) }));
+  }
+
+  async getCacheHitCounts(since: Date): Promise<{ hits: number; misses: number }> {
+    const result = await this.db
+      .select({
+        hits: sql<number>`count(*) filter (where ${apiLogs.cacheHit} = 1)`,
+        misses: sql<number>`count(*) filter (where ${apiLogs.cacheHit} = 0)`,
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since));
+
+    return { hits: Number(result[0]?.hits) || 0, misses: Number(result[0]?.misses) || 0 };
+  }
+
+  async getRecentFailedApiLogs(limit: number): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(gte(apiLogs.statusCode, 400))
+      .orderBy(desc(apiLogs.createdAt))
+      .limit(limit);
+  }
+
+  // Audio uploads
+  async createAudioUpload(insertUpload: InsertAudioUpload): Promise<AudioUpload> {
+    const result = await this.db.insert(audioUploads).values(insertUpload).returning();
+    return result[0];
+  }
+
+  async updateAudioUpload(id: string, upload: Partial<AudioUpload>): Promise<AudioUpload> {
+    const result = await this.db
+      .update(audioUploads)
+      .set(upload)
+      .where(eq(audioUploads.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error('Audio upload not found');
+    }
+    return result[0];
+  }
+
+  async getAudioUpload(id: string): Promise<AudioUpload | undefined> {
+    const result = await this.db.select().from(audioUploads).where(eq(audioUploads.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getAudioUploads(limit = 100, owner?: RecordOwner): Promise<AudioUpload[]> {
+    return await this.db
+      .select()
+      .from(audioUploads)
+      .where(ownedBy(audioUploads, owner))
+      .orderBy(desc(audioUploads.createdAt))
+      .limit(limit);
+  }
+
+  // Batch jobs
+  async createBatchJob(insertJob: InsertBatchJob): Promise<BatchJob> {
+    const result = await this.db.insert(batchJobs).values(insertJob).returning();
+    return result[0];
+  }
+
+  async updateBatchJob(id: string, job: Partial<BatchJob>): Promise<BatchJob> {
+    const result = await this.db
+      .update(batchJobs)
+      .set(job)
+      .where(eq(batchJobs.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error('Batch job not found');
+    }
+    return result[0];
+  }
+
+  async getBatchJob(id: string): Promise<BatchJob | undefined> {
+    const result = await this.db.select().from(batchJobs).where(eq(batchJobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getBatchJobs(limit = 100, owner?: RecordOwner): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(ownedBy(batchJobs, owner))
+      .orderBy(desc(batchJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getBatchJobsBetween(start: Date, end: Date): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(and(gte(batchJobs.createdAt, start), lt(batchJobs.createdAt, end)));
+  }
+
+  async getBatchJobsByStatus(statuses: string[]): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(inArray(batchJobs.status, statuses))
+      .orderBy(batchJobs.createdAt);
+  }
+
+  // API keys
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const result = await this.db.insert(apiKeys).values(insertKey).returning();
+    return result[0];
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const result = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const result = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+    return result[0];
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    return await this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const result = await this.db
+      .update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error('API key not found');
+    }
+    return result[0];
+  }
+
+  async incrementApiKeyUsage(apiKeyId: string, date: Date, requests: number, tokens: number): Promise<ApiKeyUsage> {
+    const result = await this.db
+      .insert(apiKeyUsage)
+      .values({ apiKeyId, date, requests, tokens })
+      .onConflictDoUpdate({
+        target: [apiKeyUsage.apiKeyId, apiKeyUsage.date],
+        set: {
+          requests: sql`${apiKeyUsage.requests} + ${requests}`,
+          tokens: sql`${apiKeyUsage.tokens} + ${tokens}`,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getApiKeyUsage(apiKeyId: string, date: Date): Promise<ApiKeyUsage | undefined> {
+    const result = await this.db
+      .select()
+      .from(apiKeyUsage)
+      .where(and(eq(apiKeyUsage.apiKeyId, apiKeyId), eq(apiKeyUsage.date, date)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Cache entries
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    const result = await this.db.select().from(cacheEntries).where(eq(cacheEntries.key, key)).limit(1);
+    return result[0];
+  }
+
+  async setCacheEntry(insertEntry: InsertCacheEntry): Promise<CacheEntry> {
+    const result = await this.db
+      .insert(cacheEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: cacheEntries.key,
+        set: { ...insertEntry, hits: 0, createdAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCacheEntry(key: string): Promise<boolean> {
+    const result = await this.db.delete(cacheEntries).where(eq(cacheEntries.key, key)).returning({ key: cacheEntries.key });
+    return result.length > 0;
+  }
+
+  async listCacheEntries(): Promise<Omit<CacheEntry, "value">[]> {
+    return await this.db
+      .select({
+        key: cacheEntries.key,
+        sizeBytes: cacheEntries.sizeBytes,
+        hits: cacheEntries.hits,
+        createdAt: cacheEntries.createdAt,
+        staleAt: cacheEntries.staleAt,
+        expiresAt: cacheEntries.expiresAt
+      })
+      .from(cacheEntries)
+      .orderBy(desc(cacheEntries.createdAt));
+  }
+
+  async incrementCacheEntryHits(key: string): Promise<void> {
+    await this.db
+      .update(cacheEntries)
+      .set({ hits: sql`${cacheEntries.hits} + 1` })
+      .where(eq(cacheEntries.key, key));
+  }
+
+  async deleteExpiredCacheEntries(): Promise<number> {
+    const result = await this.db
+      .delete(cacheEntries)
+      .where(lt(cacheEntries.expiresAt, new Date()))
+      .returning({ key: cacheEntries.key });
+    return result.length;
+  }
+
+  async clearCacheEntries(): Promise<void> {
+    await this.db.delete(cacheEntries);
+  }
+
+  // Rate limit buckets
+  async getRateLimitBucket(key: string): Promise<RateLimitBucket | undefined> {
+    const result = await this.db.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key)).limit(1);
+    return result[0];
+  }
+
+  async setRateLimitBucket(bucket: RateLimitBucket): Promise<void> {
+    await this.db
+      .insert(rateLimitBuckets)
+      .values(bucket)
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: { tokens: bucket.tokens, updatedAt: bucket.updatedAt, expiresAt: bucket.expiresAt }
+      });
+  }
+
+  async deleteExpiredRateLimitBuckets(): Promise<number> {
+    const result = await this.db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.expiresAt, new Date()))
+      .returning({ key: rateLimitBuckets.key });
+    return result.length;
+  }
+
+  // LLM usage ledger
+  async createLlmUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const result = await this.db.insert(llmUsage).values(insertUsage).returning();
+    return result[0];
+  }
+
+  async getLlmUsageBetween(start: Date, end: Date): Promise<LlmUsage[]> {
+    return await this.db
+      .select()
+      .from(llmUsage)
+      .where(and(gte(llmUsage.createdAt, start), lt(llmUsage.createdAt, end)));
+  }
+
+  // Processing metrics
+  async createProcessingMetrics(insertMetrics: InsertProcessingMetrics): Promise<ProcessingMetrics> {
+    const result = await this.db
+      .insert(processingMetrics)
+      .values(insertMetrics)
+      .onConflictDoUpdate({
+        target: [processingMetrics.date, processingMetrics.processingType],
+        set: {
+          totalRequests: insertMetrics.totalRequests,
+          successfulRequests: insertMetrics.successfulRequests,
+          failedRequests: insertMetrics.failedRequests,
+          avgResponseTime: insertMetrics.avgResponseTime,
+          topLanguage: insertMetrics.topLanguage,
+          topModel: insertMetrics.topModel,
+          rolledUpAt: insertMetrics.rolledUpAt,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getProcessingMetrics(days = 30): Promise<ProcessingMetrics[]> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+    
+    return await this.db
+      .select()
+      .from(processingMetrics)
+      .where(gte(processingMetrics.date, cutoffDate))
+      .orderBy(desc(processingMetrics.date));
+  }
+
+  // Analytics
+  async getProcessingStats() {
+    const totalResult = await this.db
+      .select({ count: count() })
+      .from(videoProcessingJobs);
+    
+    const successResult = await this.db
+      .select({ count: count() })
+      .from(videoProcessingJobs)
+      .where(eq(videoProcessingJobs.status, 'completed'));
+
+    const avgTimeResult = await this.db
+      .select({ avg: avg(videoProcessingJobs.responseTime) })
+      .from(videoProcessingJobs)
+      .where(sql`${videoProcessingJobs.responseTime} IS NOT NULL`);
+
+    const languagesResult = await this.db
+      .select({
+        language: videoProcessingJobs.language,
+        count: count()
+      })
+      .from(videoProcessingJobs)
+      .groupBy(videoProcessingJobs.language)
+      .orderBy(desc(count()))
+      .limit(5);
+
+    const totalProcessed = totalResult[0]?.count || 0;
+    const successfulProcessed = successResult[0]?.count || 0;
+
+    return {
+      totalProcessed: Number(totalProcessed),
+      successRate: totalProcessed > 0 ? (Number(successfulProcessed) / Number(totalProcessed)) * 100 : 0,
+      avgResponseTime: Number(avgTimeResult[0]?.avg) || 0,
+      topLanguages: languagesResult.map(r => ({ 
+        language: r.language, 
+        count: Number(r.count) 
+      }))
+    };
+  }
+
+  async getDashboardMetrics() {
+    const totalJobsResult = await this.db.select({ count: count() }).from(videoProcessingJobs);
+    const successfulJobsResult = await this.db
+      .select({ count: count() })
+      .from(videoProcessingJobs)
+      .where(eq(videoProcessingJobs.status, 'completed'));
+    
+    const avgTimeResult = await this.db
+      .select({ avg: avg(videoProcessingJobs.responseTime) })
+      .from(videoProcessingJobs)
+      .where(sql`${videoProcessingJobs.responseTime} IS NOT NULL`);
+
+    const recentJobs = await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .orderBy(desc(videoProcessingJobs.createdAt))
+      .limit(10);
+
+    const audioUploadsResult = await this.db.select({ count: count() }).from(audioUploads);
+    const batchJobsResult = await this.db.select({ count: count() }).from(batchJobs);
+
+    const totalJobs = Number(totalJobsResult[0]?.count) || 0;
+    const successfulJobs = Number(successfulJobsResult[0]?.count) || 0;
+
+    return {
+      totalJobs,
+      successRate: totalJobs > 0 ? (successfulJobs / totalJobs) * 100 : 0,
+      avgResponseTime: Number(avgTimeResult[0]?.avg) || 0,
+      recentJobs,
+      audioUploads: Number(audioUploadsResult[0]?.count) || 0,
+      batchJobs: Number(batchJobsResult[0]?.count) || 0,
+    };
+  }
+}
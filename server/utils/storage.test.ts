@@ -0,0 +1,333 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createRequire } from "module";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { MemStorage, PostgreSQLStorage, type IStorage } from "./storage";
+import { SQLiteStorage } from "./sqlite-storage";
+
+// drizzle-kit's ESM api bundle fails on a dynamic require of "fs"; the CommonJS build loads fine
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof import("drizzle-kit/api");
+
+interface StorageHarness {
+  // A storage with no data in it
+  create(): Promise<IStorage>;
+  close(): Promise<void>;
+}
+
+async function memHarness(): Promise<StorageHarness> {
+  return {
+    create: async () => new MemStorage(),
+    close: async () => {},
+  };
+}
+
+async function sqliteHarness(): Promise<StorageHarness> {
+  return {
+    create: async () => new SQLiteStorage(":memory:"),
+    close: async () => {},
+  };
+}
+
+// PostgreSQLStorage's queries run against an in-process Postgres (PGlite) built from shared/schema.ts
+async function postgresHarness(): Promise<StorageHarness> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  const tables = Object.values(schema).flatMap(value => (is(value, PgTable) ? [`"${getTableName(value)}"`] : []));
+  const storage = new PostgreSQLStorage({ db: drizzle(client), sessionStore: new session.MemoryStore() });
+
+  return {
+    create: async () => {
+      await client.exec(`TRUNCATE ${tables.join(", ")} CASCADE`);
+      return storage;
+    },
+    close: () => client.close(),
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * MINUTE);
+}
+
+describe.each([
+  ["MemStorage", memHarness],
+  ["SQLiteStorage", sqliteHarness],
+  ["PostgreSQLStorage", postgresHarness],
+])("%s", (_name, createHarness) => {
+  let harness: StorageHarness;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  beforeEach(async () => {
+    storage = await harness.create();
+  });
+
+  afterAll(async () => {
+    await harness?.close();
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("alice")).toEqual(user);
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+
+    it("rejects a duplicate username", async () => {
+      await storage.createUser({ username: "alice", password: "hash" });
+      await expect(storage.createUser({ username: "alice", password: "other" })).rejects.toThrow();
+    });
+  });
+
+  describe("video jobs", () => {
+    const job = { videoId: "dQw4w9WgXcQ", videoUrl: "https://youtu.be/dQw4w9WgXcQ", model: "gpt-5" };
+
+    it("fills in defaults and applies updates", async () => {
+      const created = await storage.createVideoJob(job);
+      expect(created).toMatchObject({ status: "pending", language: "ru", userId: null, completedAt: null });
+
+      const completedAt = new Date();
+      await storage.updateVideoJob(created.id, {
+        status: "completed",
+        chapters: [{ time: "0:00", title: "Intro" }],
+        costUsd: 0.0125,
+        completedAt,
+      });
+
+      expect(await storage.getVideoJob(created.id)).toMatchObject({
+        status: "completed",
+        chapters: [{ time: "0:00", title: "Intro" }],
+        costUsd: 0.0125,
+        completedAt,
+      });
+      expect(await storage.getVideoJob("missing")).toBeUndefined();
+    });
+
+    it("lists a user's jobs newest first and jobs by status oldest first", async () => {
+      const first = await storage.createVideoJob({ ...job, userId: "u1", status: "processing" });
+      const second = await storage.createVideoJob({ ...job, userId: "u1" });
+      const third = await storage.createVideoJob({ ...job, userId: "u2" });
+      await storage.updateVideoJob(first.id, { createdAt: minutesAgo(3) });
+      await storage.updateVideoJob(second.id, { createdAt: minutesAgo(2) });
+      await storage.updateVideoJob(third.id, { createdAt: minutesAgo(1), status: "completed" });
+
+      expect((await storage.getVideoJobsByUser("u1", 10)).map(found => found.id)).toEqual([second.id, first.id]);
+      expect((await storage.getVideoJobsByUser("u1", 1)).map(found => found.id)).toEqual([second.id]);
+      expect((await storage.getVideoJobsByStatus(["pending", "processing"])).map(found => found.id))
+        .toEqual([first.id, second.id]);
+      expect((await storage.getVideoJobsBetween(minutesAgo(2.5), minutesAgo(0.5))).map(found => found.id).sort())
+        .toEqual([second.id, third.id].sort());
+    });
+  });
+
+  describe("API logs", () => {
+    const log = { endpoint: "/api/build", method: "GET" };
+
+    it("aggregates stats, top videos, breakdowns and cache hits", async () => {
+      await storage.createApiLog({ ...log, statusCode: 200, videoId: "a", model: "gpt-5", language: "en", cacheHit: true, responseTime: 100 });
+      await storage.createApiLog({ ...log, statusCode: 200, videoId: "a", model: "gpt-5", language: "ru", cacheHit: false, responseTime: 200 });
+      await storage.createApiLog({ ...log, statusCode: 200, videoId: "b", model: "gpt-4o", language: "en", responseTime: 300 });
+      await storage.createApiLog({ ...log, statusCode: 500, videoId: "c", errorMessage: "boom", responseTime: 400 });
+      const since = minutesAgo(1);
+
+      expect(await storage.getApiLogStats(since)).toMatchObject({
+        totalRequests: 4,
+        successfulRequests: 3,
+        errorRate: 25,
+        averageResponseTime: 250,
+        p50ResponseTime: 250,
+      });
+      expect((await storage.getMostRequestedVideos(1, since))).toEqual([{ videoId: "a", count: 2 }]);
+      expect(await storage.getApiLogBreakdown(since, "model", 5)).toEqual([
+        { value: "gpt-5", count: 2 },
+        { value: "gpt-4o", count: 1 },
+      ]);
+      expect(await storage.getCacheHitCounts(since)).toEqual({ hits: 1, misses: 1 });
+      expect((await storage.getRecentFailedApiLogs(5)).map(failed => failed.errorMessage)).toEqual(["boom"]);
+      expect(await storage.getApiLogsBetween(since, new Date(Date.now() + MINUTE))).toHaveLength(4);
+      expect(await storage.getApiLogStats(new Date(Date.now() + MINUTE))).toMatchObject({ totalRequests: 0, errorRate: 0 });
+    });
+
+    it("buckets the timeseries by truncated time", async () => {
+      await storage.createApiLog({ ...log, statusCode: 200 });
+      await storage.createApiLog({ ...log, statusCode: 404 });
+
+      const series = await storage.getApiLogTimeseries(minutesAgo(1), "day");
+      expect(series).toHaveLength(1);
+      expect(series[0]).toMatchObject({ total: 2, successful: 1, failed: 1 });
+      expect(new Date(series[0].bucket).getUTCHours()).toBe(0);
+    });
+  });
+
+  describe("audio uploads and batch jobs", () => {
+    it("round-trips audio uploads", async () => {
+      const upload = await storage.createAudioUpload({
+        fileName: "f.mp3",
+        originalName: "talk.mp3",
+        filePath: "/tmp/f.mp3",
+        fileSize: 1024,
+        mimeType: "audio/mpeg",
+      });
+      expect(upload).toMatchObject({ status: "uploaded", userId: null, processedAt: null });
+
+      await storage.updateAudioUpload(upload.id, { status: "completed", transcriptText: "hello" });
+      expect(await storage.getAudioUpload(upload.id)).toMatchObject({ status: "completed", transcriptText: "hello" });
+      expect((await storage.getAudioUploads()).map(found => found.id)).toEqual([upload.id]);
+    });
+
+    it("stores batch results and finds batches by status", async () => {
+      const batch = await storage.createBatchJob({ name: "b", type: "youtube_batch", totalItems: 2 });
+      const done = await storage.createBatchJob({ name: "done", type: "youtube_batch", totalItems: 1 });
+      expect(batch).toMatchObject({ status: "pending", processedItems: 0, results: null });
+
+      const results = [{ id: "a", status: "completed", result: { model: "gpt-5" } }, { id: "b", status: "pending" }];
+      await storage.updateBatchJob(batch.id, { status: "processing", processedItems: 1, results });
+      await storage.updateBatchJob(done.id, { status: "completed" });
+
+      expect(await storage.getBatchJob(batch.id)).toMatchObject({ status: "processing", processedItems: 1, results });
+      expect((await storage.getBatchJobsByStatus(["pending", "processing"])).map(found => found.id)).toEqual([batch.id]);
+      expect(await storage.getBatchJobs()).toHaveLength(2);
+    });
+
+    it("lists only anonymous records and the owner's own when given an owner", async () => {
+      const anonymous = await storage.createBatchJob({ name: "anon", type: "youtube_batch", totalItems: 1 });
+      const mine = await storage.createBatchJob({ name: "mine", type: "youtube_batch", totalItems: 1, userId: "alice" });
+      const byKey = await storage.createBatchJob({ name: "key", type: "youtube_batch", totalItems: 1, apiKeyId: "key-1", userId: "carol" });
+      await storage.createBatchJob({ name: "theirs", type: "youtube_batch", totalItems: 1, userId: "bob", apiKeyId: "key-2" });
+      const upload = { fileName: "f.mp3", originalName: "talk.mp3", filePath: "/tmp/f.mp3", fileSize: 1024, mimeType: "audio/mpeg" };
+      const myUpload = await storage.createAudioUpload({ ...upload, userId: "alice" });
+      await storage.createAudioUpload({ ...upload, userId: "bob" });
+
+      const visible = await storage.getBatchJobs(100, { userId: "alice", apiKeyId: "key-1" });
+      expect(visible.map(found => found.id).sort()).toEqual([anonymous.id, mine.id, byKey.id].sort());
+      expect(await storage.getBatchJobs(100, {})).toMatchObject([{ id: anonymous.id }]);
+      expect(await storage.getBatchJobs()).toHaveLength(4);
+      expect(await storage.getAudioUploads(100, { userId: "alice" })).toMatchObject([{ id: myUpload.id }]);
+      expect(await storage.getAudioUploads()).toHaveLength(2);
+    });
+  });
+
+  describe("processing metrics", () => {
+    it("replaces the row for the same date and processing type", async () => {
+      const date = new Date(Date.UTC(2026, 0, 1));
+      await storage.createProcessingMetrics({ date, processingType: "youtube", totalRequests: 1 });
+      await storage.createProcessingMetrics({ date, processingType: "audio", totalRequests: 5 });
+      await storage.createProcessingMetrics({ date, processingType: "youtube", totalRequests: 3, rolledUpAt: date });
+
+      const rows = await storage.getProcessingMetrics(36500);
+      expect(rows).toHaveLength(2);
+      expect(rows.find(row => row.processingType === "youtube")).toMatchObject({ totalRequests: 3, rolledUpAt: date });
+    });
+  });
+
+  describe("API keys", () => {
+    it("finds keys by hash and owner and accumulates daily usage", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      const key = await storage.createApiKey({
+        userId: user.id,
+        name: "ci",
+        prefix: "tldr_abc",
+        keyHash: "hash-1",
+        scopes: ["build"],
+      });
+
+      expect(await storage.getApiKeyByHash("hash-1")).toMatchObject({ id: key.id, scopes: ["build"], revokedAt: null });
+      expect((await storage.getApiKeysByUser(user.id)).map(found => found.id)).toEqual([key.id]);
+
+      const revokedAt = new Date();
+      await storage.updateApiKey(key.id, { revokedAt });
+      expect(await storage.getApiKey(key.id)).toMatchObject({ revokedAt });
+
+      const day = new Date(Date.UTC(2026, 0, 1));
+      await storage.incrementApiKeyUsage(key.id, day, 1, 0);
+      const usage = await storage.incrementApiKeyUsage(key.id, day, 1, 250);
+      expect(usage).toMatchObject({ requests: 2, tokens: 250 });
+      expect(await storage.getApiKeyUsage(key.id, day)).toMatchObject({ requests: 2, tokens: 250 });
+      expect(await storage.getApiKeyUsage(key.id, new Date(Date.UTC(2026, 0, 2)))).toBeUndefined();
+    });
+  });
+
+  describe("cache entries", () => {
+    const future = () => new Date(Date.now() + 10 * MINUTE);
+
+    it("replaces, counts hits, lists without values and deletes", async () => {
+      await storage.setCacheEntry({ key: "llm:a", value: { tldr: "old" }, sizeBytes: 10, expiresAt: future() });
+      await storage.setCacheEntry({ key: "llm:a", value: { tldr: "new" }, sizeBytes: 12, expiresAt: future() });
+      await storage.incrementCacheEntryHits("llm:a");
+      await storage.incrementCacheEntryHits("llm:missing");
+
+      expect(await storage.getCacheEntry("llm:a")).toMatchObject({ value: { tldr: "new" }, sizeBytes: 12, hits: 1 });
+      const listed = await storage.listCacheEntries();
+      expect(listed).toHaveLength(1);
+      expect(listed[0]).not.toHaveProperty("value");
+
+      expect(await storage.deleteCacheEntry("llm:a")).toBe(true);
+      expect(await storage.deleteCacheEntry("llm:a")).toBe(false);
+      expect(await storage.getCacheEntry("llm:a")).toBeUndefined();
+    });
+
+    it("removes expired entries and clears everything", async () => {
+      await storage.setCacheEntry({ key: "expired", value: 1, expiresAt: minutesAgo(1) });
+      await storage.setCacheEntry({ key: "live", value: 2, expiresAt: future() });
+
+      expect(await storage.deleteExpiredCacheEntries()).toBe(1);
+      expect((await storage.listCacheEntries()).map(entry => entry.key)).toEqual(["live"]);
+
+      await storage.clearCacheEntries();
+      expect(await storage.listCacheEntries()).toEqual([]);
+    });
+  });
+
+  describe("rate limit buckets", () => {
+    it("replaces buckets by key and removes expired ones", async () => {
+      const now = new Date();
+      await storage.setRateLimitBucket({ key: "build:ip", tokens: 5, updatedAt: now, expiresAt: new Date(Date.now() + MINUTE) });
+      await storage.setRateLimitBucket({ key: "build:ip", tokens: 4.5, updatedAt: now, expiresAt: new Date(Date.now() + MINUTE) });
+      await storage.setRateLimitBucket({ key: "auth:ip", tokens: 1, updatedAt: now, expiresAt: minutesAgo(1) });
+
+      expect(await storage.getRateLimitBucket("build:ip")).toMatchObject({ tokens: 4.5 });
+      expect(await storage.deleteExpiredRateLimitBuckets()).toBe(1);
+      expect(await storage.getRateLimitBucket("auth:ip")).toBeUndefined();
+    });
+  });
+
+  describe("LLM usage", () => {
+    it("records usage and lists rows created in a window", async () => {
+      const start = minutesAgo(1);
+      const recorded = await storage.createLlmUsage({
+        model: "llama3-8b-8192",
+        requestedModel: "gpt-5",
+        source: "batch",
+        videoId: "dQw4w9WgXcQ",
+        promptTokens: 1000,
+        completionTokens: 200,
+        costUsd: 0.000066,
+      });
+      await storage.createLlmUsage({ model: "mock", requestedModel: "mock", source: "refresh", promptTokens: 10, completionTokens: 5, costUsd: 0, estimated: true });
+
+      expect(recorded).toMatchObject({ model: "llama3-8b-8192", requestedModel: "gpt-5", estimated: false });
+      expect(recorded.createdAt).toBeInstanceOf(Date);
+
+      const rows = await storage.getLlmUsageBetween(start, new Date(Date.now() + MINUTE));
+      expect(rows.map(row => row.source).sort()).toEqual(["batch", "refresh"]);
+      expect(rows.find(row => row.source === "batch")?.costUsd).toBeCloseTo(0.000066);
+      expect(await storage.getLlmUsageBetween(minutesAgo(10), start)).toEqual([]);
+    });
+  });
+});
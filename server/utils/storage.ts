@@ -11,19 +11,43 @@ import {
   type InsertBatchJob,
   type ProcessingMetrics,
   type InsertProcessingMetrics,
+  type CacheEntry,
+  type InsertCacheEntry,
+  type ApiKey,
+  type InsertApiKey,
+  type ApiKeyUsage,
+  type RateLimitBucket,
+  type LlmUsage,
+  type InsertLlmUsage,
+  type ApiLogStats,
+  type AnalyticsTimeseriesPoint,
   users,
   videoProcessingJobs,
   apiLogs,
   audioUploads,
   batchJobs,
-  processingMetrics
+  processingMetrics,
+  cacheEntries,
+  apiKeys,
+  apiKeyUsage,
+  rateLimitBuckets,
+  llmUsage
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import { Pool } from "@neondatabase/serverless";
-import { eq, desc, count, avg, sql } from "drizzle-orm";
+import { eq, desc, count, avg, sql, lt, gte, and, isNotNull, inArray } from "drizzle-orm";
+import { isOwnedBy, ownedBy, type RecordOwner } from "./record-owner";
+import { SQLiteStorage } from "./sqlite-storage";
 
 export interface IStorage {
+  // express-session store persisted with the rest of this storage's data
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -33,27 +57,84 @@ export interface IStorage {
   createVideoJob(job: InsertVideoJob): Promise<VideoProcessingJob>;
   updateVideoJob(id: string, job: Partial<VideoProcessingJob>): Promise<VideoProcessingJob>;
   getVideoJob(id: string): Promise<VideoProcessingJob | undefined>;
+  // Jobs created in [start, end)
+  getVideoJobsBetween(start: Date, end: Date): Promise<VideoProcessingJob[]>;
+  // Jobs started by a user, newest first
+  getVideoJobsByUser(userId: string, limit: number): Promise<VideoProcessingJob[]>;
+  // Jobs in any of the given statuses, oldest first
+  getVideoJobsByStatus(statuses: string[]): Promise<VideoProcessingJob[]>;
   
   // API logs
   createApiLog(log: InsertApiLog): Promise<ApiLog>;
   getApiLogs(limit?: number): Promise<ApiLog[]>;
+  // Logs created in [start, end)
+  getApiLogsBetween(start: Date, end: Date): Promise<ApiLog[]>;
+  // A user's successful requests to the given endpoints that name a video, newest first
+  getUserVideoLogs(userId: string, endpoints: string[], limit: number): Promise<ApiLog[]>;
+  // Requests logged since the given time; status codes below 400 count as successful
+  getApiLogStats(since: Date): Promise<ApiLogStats>;
+  getMostRequestedVideos(limit: number, since?: Date): Promise<Array<{ videoId: string; count: number }>>;
+  // Request counts grouped into UTC minute, hour or day buckets (only non-empty buckets)
+  getApiLogTimeseries(since: Date, bucket: "minute" | "hour" | "day"): Promise<AnalyticsTimeseriesPoint[]>;
+  getApiLogBreakdown(since: Date, field: "language" | "model", limit: number): Promise<Array<{ value: string; count: number }>>;
+  getCacheHitCounts(since: Date): Promise<{ hits: number; misses: number }>;
+  getRecentFailedApiLogs(limit: number): Promise<ApiLog[]>;
   
   // Audio uploads
   createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload>;
   updateAudioUpload(id: string, upload: Partial<AudioUpload>): Promise<AudioUpload>;
   getAudioUpload(id: string): Promise<AudioUpload | undefined>;
-  getAudioUploads(limit?: number): Promise<AudioUpload[]>;
+  // Newest first; every owner's uploads unless owner is given
+  getAudioUploads(limit?: number, owner?: RecordOwner): Promise<AudioUpload[]>;
   
   // Batch jobs
   createBatchJob(job: InsertBatchJob): Promise<BatchJob>;
   updateBatchJob(id: string, job: Partial<BatchJob>): Promise<BatchJob>;
   getBatchJob(id: string): Promise<BatchJob | undefined>;
-  getBatchJobs(limit?: number): Promise<BatchJob[]>;
+  // Newest first; every owner's batches unless owner is given
+  getBatchJobs(limit?: number, owner?: RecordOwner): Promise<BatchJob[]>;
+  // Batches created in [start, end)
+  getBatchJobsBetween(start: Date, end: Date): Promise<BatchJob[]>;
+  // Batches in any of the given statuses, oldest first
+  getBatchJobsByStatus(statuses: string[]): Promise<BatchJob[]>;
   
   // Processing metrics
+  // Replaces any existing row for the same date and processing type
   createProcessingMetrics(metrics: InsertProcessingMetrics): Promise<ProcessingMetrics>;
   getProcessingMetrics(days?: number): Promise<ProcessingMetrics[]>;
   
+  // API keys
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  // Newest first
+  getApiKeysByUser(userId: string): Promise<ApiKey[]>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey>;
+  // Add to a key's counters for one UTC day, creating the row on first use
+  incrementApiKeyUsage(apiKeyId: string, date: Date, requests: number, tokens: number): Promise<ApiKeyUsage>;
+  getApiKeyUsage(apiKeyId: string, date: Date): Promise<ApiKeyUsage | undefined>;
+
+  // Cache entries
+  getCacheEntry(key: string): Promise<CacheEntry | undefined>;
+  setCacheEntry(entry: InsertCacheEntry): Promise<CacheEntry>;
+  deleteCacheEntry(key: string): Promise<boolean>;
+  listCacheEntries(): Promise<Omit<CacheEntry, "value">[]>;
+  incrementCacheEntryHits(key: string): Promise<void>;
+  deleteExpiredCacheEntries(): Promise<number>;
+  clearCacheEntries(): Promise<void>;
+
+  // Rate limit buckets
+  getRateLimitBucket(key: string): Promise<RateLimitBucket | undefined>;
+  // Insert or replace the bucket stored under bucket.key
+  setRateLimitBucket(bucket: RateLimitBucket): Promise<void>;
+  // Remove buckets past expiresAt; returns the number removed
+  deleteExpiredRateLimitBuckets(): Promise<number>;
+
+  // LLM usage ledger
+  createLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage>;
+  // Rows created in [start, end)
+  getLlmUsageBetween(start: Date, end: Date): Promise<LlmUsage[]>;
+
   // Analytics
   getProcessingStats(): Promise<{
     totalProcessed: number;
@@ -72,15 +153,47 @@ export interface IStorage {
   }>;
 }
 
+function truncateDate(date: Date, unit: "minute" | "hour" | "day"): Date {
+  const truncated = new Date(date);
+  truncated.setUTCSeconds(0, 0);
+  if (unit !== "minute") truncated.setUTCMinutes(0);
+  if (unit === "day") truncated.setUTCHours(0);
+  return truncated;
+}
+
+function isBetween(date: Date | null, start: Date, end: Date): boolean {
+  return !!date && date >= start && date < end;
+}
+
 export class MemStorage implements IStorage {
+  readonly sessionStore: session.Store;
   private users: Map<string, User>;
   private videoJobs: Map<string, VideoProcessingJob>;
   private apiLogs: Map<string, ApiLog>;
+  private audioUploads: Map<string, AudioUpload>;
+  private batchJobs: Map<string, BatchJob>;
+  private cacheEntries: Map<string, CacheEntry>;
+  private rateLimitBuckets: Map<string, RateLimitBucket>;
+  private processingMetrics: Map<string, ProcessingMetrics>;
+  private apiKeys: Map<string, ApiKey>;
+  private apiKeyUsage: Map<string, ApiKeyUsage>;
+  private llmUsage: Map<string, LlmUsage>;
 
   constructor() {
     this.users = new Map();
     this.videoJobs = new Map();
     this.apiLogs = new Map();
+    this.audioUploads = new Map();
+    this.batchJobs = new Map();
+    this.cacheEntries = new Map();
+    this.rateLimitBuckets = new Map();
+    this.processingMetrics = new Map();
+    this.apiKeys = new Map();
+    this.apiKeyUsage = new Map();
+    this.llmUsage = new Map();
+
+    const MemoryStore = createMemoryStore(session);
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -94,6 +207,10 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Mirrors the unique constraint on users.username
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User ${insertUser.username} already exists`);
+    }
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
@@ -106,13 +223,18 @@ export class MemStorage implements IStorage {
       id,
       videoId: insertJob.videoId,
       videoUrl: insertJob.videoUrl,
+      userId: insertJob.userId || null,
       status: insertJob.status || 'pending',
       tldr: insertJob.tldr || null,
       chapters: insertJob.chapters || null,
       model: insertJob.model,
-      language: insertJob.language,
-      transcriptLength: insertJob.transcriptLength || null,
-      responseTime: insertJob.responseTime || null,
+      language: insertJob.language || 'ru',
+      transcriptLength: insertJob.transcriptLength ?? null,
+      responseTime: insertJob.responseTime ?? null,
+      apiKeyId: insertJob.apiKeyId || null,
+      promptTokens: insertJob.promptTokens ?? null,
+      completionTokens: insertJob.completionTokens ?? null,
+      costUsd: insertJob.costUsd ?? null,
       errorMessage: insertJob.errorMessage || null,
       createdAt: new Date(),
       completedAt: null,
@@ -135,6 +257,23 @@ export class MemStorage implements IStorage {
     return this.videoJobs.get(id);
   }
 
+  async getVideoJobsBetween(start: Date, end: Date): Promise<VideoProcessingJob[]> {
+    return Array.from(this.videoJobs.values()).filter(job => isBetween(job.createdAt, start, end));
+  }
+
+  async getVideoJobsByUser(userId: string, limit: number): Promise<VideoProcessingJob[]> {
+    return Array.from(this.videoJobs.values())
+      .filter(job => job.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async getVideoJobsByStatus(statuses: string[]): Promise<VideoProcessingJob[]> {
+    return Array.from(this.videoJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
   async createApiLog(insertLog: InsertApiLog): Promise<ApiLog> {
     const id = randomUUID();
     const apiLog: ApiLog = {
@@ -143,7 +282,15 @@ export class MemStorage implements IStorage {
       endpoint: insertLog.endpoint,
       method: insertLog.method,
       statusCode: insertLog.statusCode,
-      responseTime: insertLog.responseTime || null,
+      language: insertLog.language || null,
+      model: insertLog.model || null,
+      cacheHit: insertLog.cacheHit ?? null,
+      apiKeyId: insertLog.apiKeyId || null,
+      userId: insertLog.userId || null,
+      promptTokens: insertLog.promptTokens ?? null,
+      completionTokens: insertLog.completionTokens ?? null,
+      costUsd: insertLog.costUsd ?? null,
+      responseTime: insertLog.responseTime ?? null,
       userAgent: insertLog.userAgent || null,
       ipAddress: insertLog.ipAddress || null,
       errorMessage: insertLog.errorMessage || null,
@@ -153,12 +300,215 @@ export class MemStorage implements IStorage {
     return apiLog;
   }
 
-  async getApiLogs(limit = 50): Promise<ApiLog[]> {
+  async getApiLogs(limit = 100): Promise<ApiLog[]> {
     const logs = Array.from(this.apiLogs.values())
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
     return logs.slice(0, limit);
   }
 
+  async getApiLogsBetween(start: Date, end: Date): Promise<ApiLog[]> {
+    return Array.from(this.apiLogs.values()).filter(log => isBetween(log.createdAt, start, end));
+  }
+
+  async getUserVideoLogs(userId: string, endpoints: string[], limit: number): Promise<ApiLog[]> {
+    const logs = await this.getApiLogs(this.apiLogs.size);
+    return logs
+      .filter(log => log.userId === userId && endpoints.includes(log.endpoint) && log.statusCode < 400 && log.videoId)
+      .slice(0, limit);
+  }
+
+  async getApiLogStats(since: Date): Promise<ApiLogStats> {
+    const logs = this.getApiLogsSince(since);
+    const successfulRequests = logs.filter(log => log.statusCode < 400).length;
+    const responseTimes = logs
+      .map(log => log.responseTime)
+      .filter((time): time is number => time !== null)
+      .sort((a, b) => a - b);
+
+    // Linear interpolation between closest ranks, matching Postgres percentile_cont
+    const percentile = (fraction: number) => {
+      if (responseTimes.length === 0) return 0;
+      const rank = fraction * (responseTimes.length - 1);
+      const lower = Math.floor(rank);
+      const upper = Math.ceil(rank);
+      return responseTimes[lower] + (responseTimes[upper] - responseTimes[lower]) * (rank - lower);
+    };
+
+    return {
+      totalRequests: logs.length,
+      successfulRequests,
+      errorRate: logs.length > 0 ? ((logs.length - successfulRequests) / logs.length) * 100 : 0,
+      averageResponseTime: responseTimes.length > 0
+        ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
+        : 0,
+      p50ResponseTime: percentile(0.5),
+      p95ResponseTime: percentile(0.95),
+      p99ResponseTime: percentile(0.99),
+    };
+  }
+
+  async getMostRequestedVideos(limit: number, since?: Date): Promise<Array<{ videoId: string; count: number }>> {
+    const counts = new Map<string, number>();
+    this.getApiLogsSince(since).forEach(log => {
+      if (log.videoId) {
+        counts.set(log.videoId, (counts.get(log.videoId) || 0) + 1);
+      }
+    });
+
+    return Array.from(counts.entries())
+      .map(([videoId, count]) => ({ videoId, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  async getApiLogTimeseries(since: Date, bucket: "minute" | "hour" | "day"): Promise<AnalyticsTimeseriesPoint[]> {
+    const buckets = new Map<string, AnalyticsTimeseriesPoint>();
+
+    this.getApiLogsSince(since).forEach(log => {
+      const key = truncateDate(log.createdAt || new Date(), bucket).toISOString();
+      const point = buckets.get(key) || { bucket: key, total: 0, successful: 0, failed: 0 };
+      point.total++;
+      if (log.statusCode < 400) {
+        point.successful++;
+      } else {
+        point.failed++;
+      }
+      buckets.set(key, point);
+    });
+
+    return Array.from(buckets.values()).sort((a, b) => a.bucket.localeCompare(b.bucket));
+  }
+
+  async getApiLogBreakdown(since: Date, field: "language" | "model", limit: number): Promise<Array<{ value: string; count: number }>> {
+    const counts = new Map<string, number>();
+    this.getApiLogsSince(since).forEach(log => {
+      const value = log[field];
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    });
+
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  async getCacheHitCounts(since: Date): Promise<{ hits: number; misses: number }> {
+    const logs = this.getApiLogsSince(since).filter(log => log.cacheHit !== null);
+    const hits = logs.filter(log => log.cacheHit).length;
+    return { hits, misses: logs.length - hits };
+  }
+
+  async getRecentFailedApiLogs(limit: number): Promise<ApiLog[]> {
+    return Array.from(this.apiLogs.values())
+      .filter(log => log.statusCode >= 400)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  private getApiLogsSince(since?: Date): ApiLog[] {
+    return Array.from(this.apiLogs.values())
+      .filter(log => !since || (log.createdAt?.getTime() || 0) >= since.getTime());
+  }
+
+  async createAudioUpload(insertUpload: InsertAudioUpload): Promise<AudioUpload> {
+    const id = randomUUID();
+    const audioUpload: AudioUpload = {
+      id,
+      fileName: insertUpload.fileName,
+      originalName: insertUpload.originalName,
+      filePath: insertUpload.filePath,
+      fileSize: insertUpload.fileSize,
+      mimeType: insertUpload.mimeType,
+      userId: insertUpload.userId || null,
+      apiKeyId: insertUpload.apiKeyId || null,
+      status: insertUpload.status || 'uploaded',
+      transcriptText: insertUpload.transcriptText || null,
+      detectedLanguage: insertUpload.detectedLanguage || null,
+      processingTime: insertUpload.processingTime ?? null,
+      errorMessage: insertUpload.errorMessage || null,
+      createdAt: new Date(),
+      processedAt: null,
+    };
+    this.audioUploads.set(id, audioUpload);
+    return audioUpload;
+  }
+
+  async updateAudioUpload(id: string, updates: Partial<AudioUpload>): Promise<AudioUpload> {
+    const existing = this.audioUploads.get(id);
+    if (!existing) {
+      throw new Error('Audio upload not found');
+    }
+    const updated = { ...existing, ...updates };
+    this.audioUploads.set(id, updated);
+    return updated;
+  }
+
+  async getAudioUpload(id: string): Promise<AudioUpload | undefined> {
+    return this.audioUploads.get(id);
+  }
+
+  async getAudioUploads(limit = 100, owner?: RecordOwner): Promise<AudioUpload[]> {
+    const uploads = Array.from(this.audioUploads.values())
+      .filter(upload => isOwnedBy(upload, owner))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return uploads.slice(0, limit);
+  }
+
+  async createBatchJob(insertJob: InsertBatchJob): Promise<BatchJob> {
+    const id = randomUUID();
+    const batchJob: BatchJob = {
+      id,
+      name: insertJob.name,
+      type: insertJob.type,
+      userId: insertJob.userId || null,
+      apiKeyId: insertJob.apiKeyId || null,
+      status: insertJob.status || 'pending',
+      totalItems: insertJob.totalItems,
+      processedItems: insertJob.processedItems ?? 0,
+      successfulItems: insertJob.successfulItems ?? 0,
+      failedItems: insertJob.failedItems ?? 0,
+      results: insertJob.results || null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    };
+    this.batchJobs.set(id, batchJob);
+    return batchJob;
+  }
+
+  async updateBatchJob(id: string, updates: Partial<BatchJob>): Promise<BatchJob> {
+    const existing = this.batchJobs.get(id);
+    if (!existing) {
+      throw new Error('Batch job not found');
+    }
+    const updated = { ...existing, ...updates };
+    this.batchJobs.set(id, updated);
+    return updated;
+  }
+
+  async getBatchJob(id: string): Promise<BatchJob | undefined> {
+    return this.batchJobs.get(id);
+  }
+
+  async getBatchJobs(limit = 100, owner?: RecordOwner): Promise<BatchJob[]> {
+    const jobs = Array.from(this.batchJobs.values())
+      .filter(job => isOwnedBy(job, owner))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return jobs.slice(0, limit);
+  }
+
+  async getBatchJobsBetween(start: Date, end: Date): Promise<BatchJob[]> {
+    return Array.from(this.batchJobs.values()).filter(job => isBetween(job.createdAt, start, end));
+  }
+
+  async getBatchJobsByStatus(statuses: string[]): Promise<BatchJob[]> {
+    return Array.from(this.batchJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
   async getProcessingStats(): Promise<{
     totalProcessed: number;
     successRate: number;
@@ -170,10 +520,12 @@ export class MemStorage implements IStorage {
     const successful = jobs.filter(job => job.status === 'completed').length;
     const successRate = totalProcessed > 0 ? (successful / totalProcessed) * 100 : 0;
     
-    const totalResponseTime = jobs
-      .filter(job => job.responseTime)
-      .reduce((sum, job) => sum + (job.responseTime || 0), 0);
-    const avgResponseTime = successful > 0 ? totalResponseTime / successful : 0;
+    const responseTimes = jobs
+      .map(job => job.responseTime)
+      .filter((time): time is number => time !== null);
+    const avgResponseTime = responseTimes.length > 0
+      ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
+      : 0;
 
     const languageCounts = jobs.reduce((acc, job) => {
       acc[job.language] = (acc[job.language] || 0) + 1;
@@ -193,59 +545,235 @@ export class MemStorage implements IStorage {
     };
   }
 
-  // Placeholder implementations for new methods to maintain interface compatibility
-  async createAudioUpload(): Promise<AudioUpload> {
-    throw new Error("Audio uploads not supported in MemStorage");
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    if (await this.getApiKeyByHash(insertKey.keyHash)) {
+      throw new Error('API key already exists');
+    }
+    const id = randomUUID();
+    const apiKey: ApiKey = {
+      id,
+      userId: insertKey.userId,
+      name: insertKey.name,
+      prefix: insertKey.prefix,
+      keyHash: insertKey.keyHash,
+      scopes: insertKey.scopes,
+      dailyRequestLimit: insertKey.dailyRequestLimit ?? null,
+      dailyTokenLimit: insertKey.dailyTokenLimit ?? null,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(key => key.keyHash === keyHash);
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const existing = this.apiKeys.get(id);
+    if (!existing) {
+      throw new Error('API key not found');
+    }
+    const updated = { ...existing, ...updates };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
+  async incrementApiKeyUsage(apiKeyId: string, date: Date, requests: number, tokens: number): Promise<ApiKeyUsage> {
+    const key = `${apiKeyId}:${date.toISOString()}`;
+    const existing = this.apiKeyUsage.get(key);
+    const usage: ApiKeyUsage = {
+      id: existing?.id || randomUUID(),
+      apiKeyId,
+      date,
+      requests: (existing?.requests || 0) + requests,
+      tokens: (existing?.tokens || 0) + tokens,
+    };
+    this.apiKeyUsage.set(key, usage);
+    return usage;
+  }
+
+  async getApiKeyUsage(apiKeyId: string, date: Date): Promise<ApiKeyUsage | undefined> {
+    return this.apiKeyUsage.get(`${apiKeyId}:${date.toISOString()}`);
+  }
+
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    return this.cacheEntries.get(key);
+  }
+
+  async setCacheEntry(insertEntry: InsertCacheEntry): Promise<CacheEntry> {
+    const entry: CacheEntry = {
+      key: insertEntry.key,
+      value: insertEntry.value,
+      sizeBytes: insertEntry.sizeBytes || 0,
+      hits: 0,
+      createdAt: new Date(),
+      staleAt: insertEntry.staleAt ?? null,
+      expiresAt: insertEntry.expiresAt,
+    };
+    this.cacheEntries.set(entry.key, entry);
+    return entry;
+  }
+
+  async deleteCacheEntry(key: string): Promise<boolean> {
+    return this.cacheEntries.delete(key);
   }
-  async updateAudioUpload(): Promise<AudioUpload> { 
-    throw new Error("Audio uploads not supported in MemStorage");
+
+  async listCacheEntries(): Promise<Omit<CacheEntry, "value">[]> {
+    return Array.from(this.cacheEntries.values()).map(({ value, ...entry }) => entry);
   }
-  async getAudioUpload(): Promise<AudioUpload | undefined> {
-    return undefined;
+
+  async incrementCacheEntryHits(key: string): Promise<void> {
+    const entry = this.cacheEntries.get(key);
+    if (entry) {
+      entry.hits++;
+    }
   }
-  async getAudioUploads(): Promise<AudioUpload[]> {
-    return [];
+
+  async deleteExpiredCacheEntries(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    Array.from(this.cacheEntries.entries()).forEach(([key, entry]) => {
+      if (entry.expiresAt.getTime() <= now) {
+        this.cacheEntries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
   }
-  async createBatchJob(): Promise<BatchJob> {
-    throw new Error("Batch jobs not supported in MemStorage");
+
+  async clearCacheEntries(): Promise<void> {
+    this.cacheEntries.clear();
   }
-  async updateBatchJob(): Promise<BatchJob> {
-    throw new Error("Batch jobs not supported in MemStorage");
+
+  async getRateLimitBucket(key: string): Promise<RateLimitBucket | undefined> {
+    return this.rateLimitBuckets.get(key);
+  }
+
+  async setRateLimitBucket(bucket: RateLimitBucket): Promise<void> {
+    this.rateLimitBuckets.set(bucket.key, { ...bucket });
   }
-  async getBatchJob(): Promise<BatchJob | undefined> {
-    return undefined;
+
+  async deleteExpiredRateLimitBuckets(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    Array.from(this.rateLimitBuckets.entries()).forEach(([key, bucket]) => {
+      if (bucket.expiresAt.getTime() <= now) {
+        this.rateLimitBuckets.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  async createLlmUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const id = randomUUID();
+    const usage: LlmUsage = {
+      id,
+      model: insertUsage.model,
+      requestedModel: insertUsage.requestedModel,
+      source: insertUsage.source,
+      videoId: insertUsage.videoId || null,
+      apiKeyId: insertUsage.apiKeyId || null,
+      userId: insertUsage.userId || null,
+      promptTokens: insertUsage.promptTokens,
+      completionTokens: insertUsage.completionTokens,
+      costUsd: insertUsage.costUsd,
+      estimated: insertUsage.estimated ?? false,
+      createdAt: new Date(),
+    };
+    this.llmUsage.set(id, usage);
+    return usage;
   }
-  async getBatchJobs(): Promise<BatchJob[]> {
-    return [];
+
+  async getLlmUsageBetween(start: Date, end: Date): Promise<LlmUsage[]> {
+    return Array.from(this.llmUsage.values()).filter(usage => isBetween(usage.createdAt, start, end));
   }
-  async createProcessingMetrics(): Promise<ProcessingMetrics> {
-    throw new Error("Processing metrics not supported in MemStorage");
+
+  async createProcessingMetrics(insertMetrics: InsertProcessingMetrics): Promise<ProcessingMetrics> {
+    const key = `${insertMetrics.date.toISOString()}:${insertMetrics.processingType}`;
+    const metrics: ProcessingMetrics = {
+      id: this.processingMetrics.get(key)?.id || randomUUID(),
+      date: insertMetrics.date,
+      processingType: insertMetrics.processingType,
+      totalRequests: insertMetrics.totalRequests ?? 0,
+      successfulRequests: insertMetrics.successfulRequests ?? 0,
+      failedRequests: insertMetrics.failedRequests ?? 0,
+      avgResponseTime: insertMetrics.avgResponseTime ?? 0,
+      topLanguage: insertMetrics.topLanguage || null,
+      topModel: insertMetrics.topModel || null,
+      rolledUpAt: insertMetrics.rolledUpAt || null,
+    };
+    this.processingMetrics.set(key, metrics);
+    return metrics;
   }
-  async getProcessingMetrics(): Promise<ProcessingMetrics[]> {
-    return [];
+
+  async getProcessingMetrics(days = 30): Promise<ProcessingMetrics[]> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+
+    return Array.from(this.processingMetrics.values())
+      .filter(metrics => metrics.date >= cutoffDate)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
+
   async getDashboardMetrics() {
+    const jobs = Array.from(this.videoJobs.values())
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    const { successRate, avgResponseTime } = await this.getProcessingStats();
+
     return {
-      totalJobs: 0,
-      successRate: 0,
-      avgResponseTime: 0,
-      recentJobs: [],
-      audioUploads: 0,
-      batchJobs: 0,
+      totalJobs: jobs.length,
+      successRate,
+      avgResponseTime,
+      recentJobs: jobs.slice(0, 10),
+      audioUploads: this.audioUploads.size,
+      batchJobs: this.batchJobs.size,
     };
   }
 }
 
+// Any drizzle Postgres driver; production uses Neon, the storage tests PGlite
+export type PostgresDatabase = PgDatabase<PgQueryResultHKT>;
+
 export class PostgreSQLStorage implements IStorage {
-  private db: ReturnType<typeof drizzle>;
+  readonly sessionStore: session.Store;
+  private db: PostgresDatabase;
+
+  /**
+   * Connect to DATABASE_URL, unless an already connected database and session store are given
+   */
+  constructor(connection?: { db: PostgresDatabase; sessionStore: session.Store }) {
+    if (connection) {
+      this.db = connection.db;
+      this.sessionStore = connection.sessionStore;
+      return;
+    }
 
-  constructor() {
     if (!process.env.DATABASE_URL) {
       throw new Error("DATABASE_URL environment variable is required");
     }
     
     const pool = new Pool({ connectionString: process.env.DATABASE_URL });
     this.db = drizzle(pool);
+
+    const PostgresSessionStore = connectPg(session);
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true
+    });
   }
 
   // User methods
@@ -276,6 +804,9 @@ export class PostgreSQLStorage implements IStorage {
       .set(job)
       .where(eq(videoProcessingJobs.id, id))
       .returning();
+    if (!result[0]) {
+      throw new Error('Video job not found');
+    }
     return result[0];
   }
 
@@ -284,6 +815,30 @@ export class PostgreSQLStorage implements IStorage {
     return result[0];
   }
 
+  async getVideoJobsBetween(start: Date, end: Date): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(and(gte(videoProcessingJobs.createdAt, start), lt(videoProcessingJobs.createdAt, end)));
+  }
+
+  async getVideoJobsByUser(userId: string, limit: number): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(eq(videoProcessingJobs.userId, userId))
+      .orderBy(desc(videoProcessingJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getVideoJobsByStatus(statuses: string[]): Promise<VideoProcessingJob[]> {
+    return await this.db
+      .select()
+      .from(videoProcessingJobs)
+      .where(inArray(videoProcessingJobs.status, statuses))
+      .orderBy(videoProcessingJobs.createdAt);
+  }
+
   // API logs
   async createApiLog(insertLog: InsertApiLog): Promise<ApiLog> {
     const result = await this.db.insert(apiLogs).values(insertLog).returning();
@@ -294,6 +849,121 @@ export class PostgreSQLStorage implements IStorage {
     return await this.db.select().from(apiLogs).orderBy(desc(apiLogs.createdAt)).limit(limit);
   }
 
+  async getApiLogsBetween(start: Date, end: Date): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(and(gte(apiLogs.createdAt, start), lt(apiLogs.createdAt, end)));
+  }
+
+  async getUserVideoLogs(userId: string, endpoints: string[], limit: number): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(and(
+        eq(apiLogs.userId, userId),
+        inArray(apiLogs.endpoint, endpoints),
+        lt(apiLogs.statusCode, 400),
+        isNotNull(apiLogs.videoId)
+      ))
+      .orderBy(desc(apiLogs.createdAt))
+      .limit(limit);
+  }
+
+  async getApiLogStats(since: Date): Promise<ApiLogStats> {
+    const result = await this.db
+      .select({
+        total: count(),
+        successful: sql<number>`count(*) filter (where ${apiLogs.statusCode} < 400)`,
+        avg: avg(apiLogs.responseTime),
+        p50: sql<number>`percentile_cont(0.5) within group (order by ${apiLogs.responseTime})`,
+        p95: sql<number>`percentile_cont(0.95) within group (order by ${apiLogs.responseTime})`,
+        p99: sql<number>`percentile_cont(0.99) within group (order by ${apiLogs.responseTime})`,
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since));
+
+    const totalRequests = Number(result[0]?.total) || 0;
+    const successfulRequests = Number(result[0]?.successful) || 0;
+
+    return {
+      totalRequests,
+      successfulRequests,
+      errorRate: totalRequests > 0 ? ((totalRequests - successfulRequests) / totalRequests) * 100 : 0,
+      averageResponseTime: Number(result[0]?.avg) || 0,
+      p50ResponseTime: Number(result[0]?.p50) || 0,
+      p95ResponseTime: Number(result[0]?.p95) || 0,
+      p99ResponseTime: Number(result[0]?.p99) || 0,
+    };
+  }
+
+  async getMostRequestedVideos(limit: number, since?: Date): Promise<Array<{ videoId: string; count: number }>> {
+    const result = await this.db
+      .select({ videoId: apiLogs.videoId, count: count() })
+      .from(apiLogs)
+      .where(since ? and(isNotNull(apiLogs.videoId), gte(apiLogs.createdAt, since)) : isNotNull(apiLogs.videoId))
+      .groupBy(apiLogs.videoId)
+      .orderBy(desc(count()))
+      .limit(limit);
+
+    return result.map(row => ({ videoId: row.videoId!, count: Number(row.count) }));
+  }
+
+  async getApiLogTimeseries(since: Date, bucket: "minute" | "hour" | "day"): Promise<AnalyticsTimeseriesPoint[]> {
+    // The unit is inlined: bound as a parameter, the select and group by expressions would differ
+    const bucketExpression = sql<Date>`date_trunc('${sql.raw(bucket)}', ${apiLogs.createdAt})`;
+    const result = await this.db
+      .select({
+        bucket: bucketExpression,
+        total: count(),
+        successful: sql<number>`count(*) filter (where ${apiLogs.statusCode} < 400)`,
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since))
+      .groupBy(bucketExpression)
+      .orderBy(bucketExpression);
+
+    return result.map(row => {
+      const total = Number(row.total);
+      const successful = Number(row.successful);
+      return { bucket: new Date(row.bucket).toISOString(), total, successful, failed: total - successful };
+    });
+  }
+
+  async getApiLogBreakdown(since: Date, field: "language" | "model", limit: number): Promise<Array<{ value: string; count: number }>> {
+    const column = field === "language" ? apiLogs.language : apiLogs.model;
+    const result = await this.db
+      .select({ value: column, count: count() })
+      .from(apiLogs)
+      .where(and(isNotNull(column), gte(apiLogs.createdAt, since)))
+      .groupBy(column)
+      .orderBy(desc(count()))
+      .limit(limit);
+
+    return result.map(row => ({ value: row.value!, count: Number(row.count) }));
+  }
+
+  async getCacheHitCounts(since: Date): Promise<{ hits: number; misses: number }> {
+    const result = await this.db
+      .select({
+        hits: sql<number>`count(*) filter (where ${apiLogs.cacheHit} = true)`,
+        misses: sql<number>`count(*) filter (where ${apiLogs.cacheHit} = false)`,
+      })
+      .from(apiLogs)
+      .where(gte(apiLogs.createdAt, since));
+
+    return { hits: Number(result[0]?.hits) || 0, misses: Number(result[0]?.misses) || 0 };
+  }
+
+  async getRecentFailedApiLogs(limit: number): Promise<ApiLog[]> {
+    return await this.db
+      .select()
+      .from(apiLogs)
+      .where(gte(apiLogs.statusCode, 400))
+      .orderBy(desc(apiLogs.createdAt))
+      .limit(limit);
+  }
+
   // Audio uploads
   async createAudioUpload(insertUpload: InsertAudioUpload): Promise<AudioUpload> {
     const result = await this.db.insert(audioUploads).values(insertUpload).returning();
@@ -306,6 +976,9 @@ export class PostgreSQLStorage implements IStorage {
       .set(upload)
       .where(eq(audioUploads.id, id))
       .returning();
+    if (!result[0]) {
+      throw new Error('Audio upload not found');
+    }
     return result[0];
   }
 
@@ -314,8 +987,13 @@ export class PostgreSQLStorage implements IStorage {
     return result[0];
   }
 
-  async getAudioUploads(limit = 100): Promise<AudioUpload[]> {
-    return await this.db.select().from(audioUploads).orderBy(desc(audioUploads.createdAt)).limit(limit);
+  async getAudioUploads(limit = 100, owner?: RecordOwner): Promise<AudioUpload[]> {
+    return await this.db
+      .select()
+      .from(audioUploads)
+      .where(ownedBy(audioUploads, owner))
+      .orderBy(desc(audioUploads.createdAt))
+      .limit(limit);
   }
 
   // Batch jobs
@@ -330,6 +1008,9 @@ export class PostgreSQLStorage implements IStorage {
       .set(job)
       .where(eq(batchJobs.id, id))
       .returning();
+    if (!result[0]) {
+      throw new Error('Batch job not found');
+    }
     return result[0];
   }
 
@@ -338,13 +1019,201 @@ export class PostgreSQLStorage implements IStorage {
     return result[0];
   }
 
-  async getBatchJobs(limit = 100): Promise<BatchJob[]> {
-    return await this.db.select().from(batchJobs).orderBy(desc(batchJobs.createdAt)).limit(limit);
+  async getBatchJobs(limit = 100, owner?: RecordOwner): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(ownedBy(batchJobs, owner))
+      .orderBy(desc(batchJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getBatchJobsBetween(start: Date, end: Date): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(and(gte(batchJobs.createdAt, start), lt(batchJobs.createdAt, end)));
+  }
+
+  async getBatchJobsByStatus(statuses: string[]): Promise<BatchJob[]> {
+    return await this.db
+      .select()
+      .from(batchJobs)
+      .where(inArray(batchJobs.status, statuses))
+      .orderBy(batchJobs.createdAt);
+  }
+
+  // API keys
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const result = await this.db.insert(apiKeys).values(insertKey).returning();
+    return result[0];
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const result = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const result = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+    return result[0];
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    return await this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const result = await this.db
+      .update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error('API key not found');
+    }
+    return result[0];
+  }
+
+  async incrementApiKeyUsage(apiKeyId: string, date: Date, requests: number, tokens: number): Promise<ApiKeyUsage> {
+    const result = await this.db
+      .insert(apiKeyUsage)
+      .values({ apiKeyId, date, requests, tokens })
+      .onConflictDoUpdate({
+        target: [apiKeyUsage.apiKeyId, apiKeyUsage.date],
+        set: {
+          requests: sql`${apiKeyUsage.requests} + ${requests}`,
+          tokens: sql`${apiKeyUsage.tokens} + ${tokens}`,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getApiKeyUsage(apiKeyId: string, date: Date): Promise<ApiKeyUsage | undefined> {
+    const result = await this.db
+      .select()
+      .from(apiKeyUsage)
+      .where(and(eq(apiKeyUsage.apiKeyId, apiKeyId), eq(apiKeyUsage.date, date)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Cache entries
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    const result = await this.db.select().from(cacheEntries).where(eq(cacheEntries.key, key)).limit(1);
+    return result[0];
+  }
+
+  async setCacheEntry(insertEntry: InsertCacheEntry): Promise<CacheEntry> {
+    const result = await this.db
+      .insert(cacheEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: cacheEntries.key,
+        set: { ...insertEntry, hits: 0, createdAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCacheEntry(key: string): Promise<boolean> {
+    const result = await this.db.delete(cacheEntries).where(eq(cacheEntries.key, key)).returning({ key: cacheEntries.key });
+    return result.length > 0;
+  }
+
+  async listCacheEntries(): Promise<Omit<CacheEntry, "value">[]> {
+    return await this.db
+      .select({
+        key: cacheEntries.key,
+        sizeBytes: cacheEntries.sizeBytes,
+        hits: cacheEntries.hits,
+        createdAt: cacheEntries.createdAt,
+        staleAt: cacheEntries.staleAt,
+        expiresAt: cacheEntries.expiresAt
+      })
+      .from(cacheEntries)
+      .orderBy(desc(cacheEntries.createdAt));
+  }
+
+  async incrementCacheEntryHits(key: string): Promise<void> {
+    await this.db
+      .update(cacheEntries)
+      .set({ hits: sql`${cacheEntries.hits} + 1` })
+      .where(eq(cacheEntries.key, key));
+  }
+
+  async deleteExpiredCacheEntries(): Promise<number> {
+    const result = await this.db
+      .delete(cacheEntries)
+      .where(lt(cacheEntries.expiresAt, new Date()))
+      .returning({ key: cacheEntries.key });
+    return result.length;
+  }
+
+  async clearCacheEntries(): Promise<void> {
+    await this.db.delete(cacheEntries);
+  }
+
+  // Rate limit buckets
+  async getRateLimitBucket(key: string): Promise<RateLimitBucket | undefined> {
+    const result = await this.db.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key)).limit(1);
+    return result[0];
+  }
+
+  async setRateLimitBucket(bucket: RateLimitBucket): Promise<void> {
+    await this.db
+      .insert(rateLimitBuckets)
+      .values(bucket)
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: { tokens: bucket.tokens, updatedAt: bucket.updatedAt, expiresAt: bucket.expiresAt }
+      });
+  }
+
+  async deleteExpiredRateLimitBuckets(): Promise<number> {
+    const result = await this.db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.expiresAt, new Date()))
+      .returning({ key: rateLimitBuckets.key });
+    return result.length;
+  }
+
+  // LLM usage ledger
+  async createLlmUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const result = await this.db.insert(llmUsage).values(insertUsage).returning();
+    return result[0];
+  }
+
+  async getLlmUsageBetween(start: Date, end: Date): Promise<LlmUsage[]> {
+    return await this.db
+      .select()
+      .from(llmUsage)
+      .where(and(gte(llmUsage.createdAt, start), lt(llmUsage.createdAt, end)));
   }
 
   // Processing metrics
   async createProcessingMetrics(insertMetrics: InsertProcessingMetrics): Promise<ProcessingMetrics> {
-    const result = await this.db.insert(processingMetrics).values(insertMetrics).returning();
+    const result = await this.db
+      .insert(processingMetrics)
+      .values(insertMetrics)
+      .onConflictDoUpdate({
+        target: [processingMetrics.date, processingMetrics.processingType],
+        set: {
+          totalRequests: insertMetrics.totalRequests,
+          successfulRequests: insertMetrics.successfulRequests,
+          failedRequests: insertMetrics.failedRequests,
+          avgResponseTime: insertMetrics.avgResponseTime,
+          topLanguage: insertMetrics.topLanguage,
+          topModel: insertMetrics.topModel,
+          rolledUpAt: insertMetrics.rolledUpAt,
+        },
+      })
+      .returning();
     return result[0];
   }
 
@@ -434,7 +1303,23 @@ export class PostgreSQLStorage implements IStorage {
   }
 }
 
-// Use PostgreSQL storage in production, MemStorage for development/testing
-export const storage = process.env.DATABASE_URL 
-  ? new PostgreSQLStorage() 
-  : new MemStorage();
+/**
+ * Pick the backend from STORAGE_DRIVER: "postgres" (needs DATABASE_URL), "sqlite" (SQLITE_PATH)
+ * or "memory". Without it, PostgreSQL is used when DATABASE_URL is set and MemStorage otherwise.
+ */
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  switch (driver) {
+    case 'postgres':
+      return new PostgreSQLStorage();
+    case 'sqlite':
+      return new SQLiteStorage();
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
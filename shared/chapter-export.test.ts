@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { exportChapters } from "./chapter-export";
+
+const ID = "dQw4w9WgXcQ";
+
+describe("exportChapters", () => {
+  it("escapes Markdown syntax in chapter titles", () => {
+    const result = exportChapters({
+      videoId: ID,
+      videoTitle: "Talk",
+      tldr: "",
+      durationSeconds: 120,
+      chapters: [{ time: "00:00", title: "Using `npm` with *stars*, [links](x) and snake_case \\" }],
+    }, "markdown");
+
+    expect(result.ok && result.value.body).toContain(
+      `- [0:00](https://www.youtube.com/watch?v=${ID}&t=0s) Using \\\`npm\\\` with \\*stars\\*, \\[links\\](x) and snake\\_case \\\\\n`,
+    );
+  });
+
+  it("escapes Markdown syntax in the video title heading", () => {
+    const result = exportChapters({
+      videoId: ID,
+      videoTitle: "[Click here](https://evil.example) <b>now</b> #1",
+      tldr: "",
+      durationSeconds: 120,
+      chapters: [{ time: "00:00", title: "Intro" }],
+    }, "markdown");
+
+    expect(result.ok && result.value.body.split("\n")[0]).toBe("# \\[Click here\\](https://evil.example) \\<b>now\\</b> #1");
+  });
+
+  it("keeps an LLM summary from injecting links, headings, quotes or lists", () => {
+    const result = exportChapters({
+      videoId: ID,
+      videoTitle: "Talk",
+      tldr: "See [docs](https://evil.example) for _more_.\n# Fake heading\n> quoted\n- item\n2. step\n===",
+      durationSeconds: 120,
+      chapters: [{ time: "00:00", title: "Intro" }],
+    }, "markdown");
+
+    expect(result.ok && result.value.body).toContain([
+      "See \\[docs\\](https://evil.example) for \\_more\\_.",
+      "\\# Fake heading",
+      "\\> quoted",
+      "\\- item",
+      "2\\. step",
+      "\\===",
+      "",
+      "## Chapters",
+    ].join("\n"));
+  });
+
+  it("leaves plain text untouched", () => {
+    const result = exportChapters({
+      videoId: ID,
+      videoTitle: "A plain talk",
+      tldr: "It covers 3 topics - briefly.",
+      durationSeconds: 120,
+      chapters: [{ time: "00:00", title: "Intro" }],
+    }, "markdown");
+
+    expect(result.ok && result.value.body).toBe(
+      `# A plain talk\n\nIt covers 3 topics - briefly.\n\n## Chapters\n\n- [0:00](https://www.youtube.com/watch?v=${ID}&t=0s) Intro\n`,
+    );
+  });
+
+  it("drops YouTube chapters that start too soon after the previous one", () => {
+    const result = exportChapters({
+      videoId: ID,
+      videoTitle: "Talk",
+      tldr: "",
+      durationSeconds: 120,
+      chapters: [
+        { time: "00:00", title: "Intro" },
+        { time: "00:05", title: "Too soon" },
+        { time: "00:30", title: "Middle" },
+        { time: "01:00", title: "End" },
+      ],
+    }, "youtube");
+
+    expect(result).toEqual({ ok: true, value: expect.objectContaining({ body: "0:00 Intro\n0:30 Middle\n1:00 End\n" }) });
+  });
+});
@@ -0,0 +1,214 @@
+// Chapter export formats shared by /api/build?format= and the API tester's export buttons
+
+import type { ChapterExportFormat, YoutubeResponse } from "./schema";
+
+// YouTube only turns a description's timestamps into chapters when these hold
+export const YOUTUBE_MIN_CHAPTERS = 3;
+export const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+// Length given to the last chapter when the video duration is unknown (e.g. older cached responses)
+const FALLBACK_LAST_CHAPTER_SECONDS = 60;
+
+export interface ChapterExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+export type ChapterExportResult =
+  | { ok: true; value: ChapterExport }
+  | { ok: false; message: string };
+
+interface TimedChapter {
+  title: string;
+  start: number;
+  end: number;
+}
+
+type ExportSource = Pick<YoutubeResponse, "videoId" | "videoTitle" | "tldr" | "chapters" | "durationSeconds">;
+
+const CONTENT_TYPES: Record<ChapterExportFormat, { contentType: string; extension: string }> = {
+  youtube: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+  vtt: { contentType: "text/vtt; charset=utf-8", extension: "vtt" },
+  srt: { contentType: "application/x-subrip; charset=utf-8", extension: "srt" },
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  ffmetadata: { contentType: "text/plain; charset=utf-8", extension: "ffmetadata" },
+};
+
+function parseTimestamp(timestamp: string): number | null {
+  const parts = timestamp.trim().split(":").map(part => Number(part));
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !Number.isInteger(part) || part < 0)) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function singleLine(title: string): string {
+  return title.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Chapters in start order with an end time each: a chapter ends where the next begins and
+ * the last one at the end of the video. Unparseable and repeated times are dropped.
+ */
+function timeChapters(source: ExportSource): TimedChapter[] {
+  const starts = source.chapters
+    .map(chapter => ({ title: singleLine(chapter.title), start: parseTimestamp(chapter.time) }))
+    .filter((chapter): chapter is { title: string; start: number } => chapter.start !== null && chapter.title !== "")
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, sorted) => index === 0 || chapter.start > sorted[index - 1].start);
+
+  return starts.map((chapter, index) => {
+    const next = starts[index + 1];
+    let end = next ? next.start : source.durationSeconds ?? 0;
+    if (end <= chapter.start) {
+      end = chapter.start + FALLBACK_LAST_CHAPTER_SECONDS;
+    }
+    return { ...chapter, end };
+  });
+}
+
+// 0:00, 4:05, 1:02:03 - the form YouTube recognises in descriptions
+function formatClock(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// 00:01:02.000 for WebVTT, 00:01:02,000 for SRT
+function formatCueTime(totalSeconds: number, separator: "." | ","): string {
+  const hours = Math.floor(totalSeconds / 3600).toString().padStart(2, "0");
+  const minutes = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, "0");
+  const seconds = Math.floor(totalSeconds % 60).toString().padStart(2, "0");
+  return `${hours}:${minutes}:${seconds}${separator}000`;
+}
+
+/**
+ * Fit chapters to YouTube's rules: the first starts at 0:00 and every chapter, the last
+ * included when the duration is known, lasts at least 10 seconds. Chapters starting too soon
+ * after the previous one are dropped. Fails when fewer than 3 chapters are left.
+ */
+function toYouTubeDescription(source: ExportSource): ChapterExportResult {
+  const chapters = timeChapters(source);
+  if (chapters.length === 0) {
+    return { ok: false, message: "Response has no chapters to export" };
+  }
+
+  const kept = [{ ...chapters[0], start: 0 }];
+  chapters.slice(1).forEach(chapter => {
+    if (chapter.start - kept[kept.length - 1].start >= YOUTUBE_MIN_CHAPTER_SECONDS) {
+      kept.push(chapter);
+    }
+  });
+
+  const duration = source.durationSeconds;
+  if (duration && kept.length > 1 && duration - kept[kept.length - 1].start < YOUTUBE_MIN_CHAPTER_SECONDS) {
+    kept.pop();
+  }
+
+  if (kept.length < YOUTUBE_MIN_CHAPTERS) {
+    return {
+      ok: false,
+      message: `YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters of ${YOUTUBE_MIN_CHAPTER_SECONDS}s or longer, this video has ${kept.length}`
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...CONTENT_TYPES.youtube,
+      body: kept.map(chapter => `${formatClock(chapter.start)} ${chapter.title}`).join("\n") + "\n"
+    }
+  };
+}
+
+function toWebVtt(chapters: TimedChapter[]): string {
+  const cues = chapters.map((chapter, index) =>
+    `${index + 1}\n${formatCueTime(chapter.start, ".")} --> ${formatCueTime(chapter.end, ".")}\n${chapter.title.replace(/-->/g, "->")}`
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+function toSrt(chapters: TimedChapter[]): string {
+  return chapters.map((chapter, index) =>
+    `${index + 1}\n${formatCueTime(chapter.start, ",")} --> ${formatCueTime(chapter.end, ",")}\n${chapter.title}`
+  ).join("\n\n") + "\n";
+}
+
+// Backslash-escape text from the uploader or the LLM so it can't open links, emphasis, code spans
+// or HTML, nor start a heading, quote, list or setext underline at the beginning of a line
+function escapeMarkdown(value: string): string {
+  return value
+    .replace(/[\\`*_[\]<]/g, match => `\\${match}`)
+    .replace(/^([ \t]*)([#>+=-])/gm, "$1\\$2")
+    .replace(/^([ \t]*\d+)([.)])/gm, "$1\\$2");
+}
+
+function toMarkdown(source: ExportSource, chapters: TimedChapter[]): string {
+  const lines = [`# ${escapeMarkdown(singleLine(source.videoTitle || source.videoId))}`, ""];
+  if (source.tldr) {
+    lines.push(escapeMarkdown(source.tldr.trim()), "");
+  }
+  lines.push("## Chapters", "");
+  chapters.forEach(chapter => {
+    const link = `https://www.youtube.com/watch?v=${source.videoId}&t=${chapter.start}s`;
+    lines.push(`- [${formatClock(chapter.start)}](${link}) ${escapeMarkdown(chapter.title)}`);
+  });
+  return lines.join("\n") + "\n";
+}
+
+// FFMETADATA treats '=', ';', '#', '\' and newlines as syntax unless escaped with a backslash
+function escapeFfmetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+}
+
+function toFfmetadata(source: ExportSource, chapters: TimedChapter[]): string {
+  const lines = [";FFMETADATA1"];
+  if (source.videoTitle) {
+    lines.push(`title=${escapeFfmetadata(source.videoTitle)}`);
+  }
+  chapters.forEach(chapter => {
+    lines.push(
+      "",
+      "[CHAPTER]",
+      "TIMEBASE=1/1000",
+      `START=${chapter.start * 1000}`,
+      `END=${chapter.end * 1000}`,
+      `title=${escapeFfmetadata(chapter.title)}`
+    );
+  });
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a response's chapters in one of the export formats
+ */
+export function exportChapters(source: ExportSource, format: ChapterExportFormat): ChapterExportResult {
+  if (format === "youtube") {
+    return toYouTubeDescription(source);
+  }
+
+  const chapters = timeChapters(source);
+  if (chapters.length === 0) {
+    return { ok: false, message: "Response has no chapters to export" };
+  }
+
+  let body: string;
+  switch (format) {
+    case "vtt":
+      body = toWebVtt(chapters);
+      break;
+    case "srt":
+      body = toSrt(chapters);
+      break;
+    case "markdown":
+      body = toMarkdown(source, chapters);
+      break;
+    case "ffmetadata":
+      body = toFfmetadata(source, chapters);
+      break;
+  }
+
+  return { ok: true, value: { ...CONTENT_TYPES[format], body } };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +13,7 @@ export const videoProcessingJobs = pgTable("video_processing_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   videoId: text("video_id").notNull(),
   videoUrl: text("video_url").notNull(),
+  userId: varchar("user_id"),
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed
   tldr: text("tldr"),
   chapters: jsonb("chapters").$type<Array<{ time: string; title: string }>>(),
@@ -20,6 +21,10 @@ export const videoProcessingJobs = pgTable("video_processing_jobs", {
   language: text("language").notNull().default("ru"),
   transcriptLength: integer("transcript_length"),
   responseTime: integer("response_time"),
+  apiKeyId: varchar("api_key_id"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: doublePrecision("cost_usd"),
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
@@ -31,6 +36,15 @@ export const apiLogs = pgTable("api_logs", {
   endpoint: text("endpoint").notNull(),
   method: text("method").notNull(),
   statusCode: integer("status_code").notNull(),
+  language: text("language"),
+  model: text("model"),
+  cacheHit: boolean("cache_hit"),
+  apiKeyId: varchar("api_key_id"),
+  userId: varchar("user_id"),
+  // LLM spend of the request; null when no model was called (cache hits, early failures)
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: doublePrecision("cost_usd"),
   responseTime: integer("response_time"),
   userAgent: text("user_agent"),
   ipAddress: text("ip_address"),
@@ -45,6 +59,8 @@ export const audioUploads = pgTable("audio_uploads", {
   filePath: text("file_path").notNull(),
   fileSize: integer("file_size").notNull(),
   mimeType: text("mime_type").notNull(),
+  userId: varchar("user_id"),
+  apiKeyId: varchar("api_key_id"),
   status: text("status").notNull().default("uploaded"), // uploaded, processing, completed, failed
   transcriptText: text("transcript_text"),
   detectedLanguage: text("detected_language"),
@@ -58,6 +74,8 @@ export const batchJobs = pgTable("batch_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   type: text("type").notNull(), // "youtube_batch", "audio_batch"
+  userId: varchar("user_id"),
+  apiKeyId: varchar("api_key_id"),
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed, cancelled
   totalItems: integer("total_items").notNull(),
   processedItems: integer("processed_items").default(0),
@@ -79,6 +97,77 @@ export const processingMetrics = pgTable("processing_metrics", {
   avgResponseTime: integer("avg_response_time").default(0),
   topLanguage: text("top_language"),
   topModel: text("top_model"),
+  // When the row was last computed; a day is closed once this falls after the day ended
+  rolledUpAt: timestamp("rolled_up_at"),
+}, (table) => ({
+  // One rollup row per UTC day and processing type; re-running a rollup replaces it
+  dateTypeIdx: uniqueIndex("processing_metrics_date_type_idx").on(table.date, table.processingType),
+}));
+
+// Keys issued to API callers. Only a SHA-256 hash of the secret is stored; the prefix is kept
+// in clear so owners can tell their keys apart.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  // null means unlimited
+  dailyRequestLimit: integer("daily_request_limit"),
+  dailyTokenLimit: integer("daily_token_limit"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Per-key counters for one UTC day, checked against the key's daily quotas
+export const apiKeyUsage = pgTable("api_key_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  apiKeyId: varchar("api_key_id").notNull().references(() => apiKeys.id),
+  date: timestamp("date").notNull(),
+  requests: integer("requests").notNull().default(0),
+  tokens: integer("tokens").notNull().default(0),
+}, (table) => ({
+  keyDateIdx: uniqueIndex("api_key_usage_key_date_idx").on(table.apiKeyId, table.date),
+}));
+
+// Rows of the "sql" cache backend (see server/services/cache-stores.ts)
+export const cacheEntries = pgTable("cache_entries", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  sizeBytes: integer("size_bytes").notNull().default(0),
+  hits: integer("hits").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  // Past staleAt the entry is still served, flagged stale, until expiresAt
+  staleAt: timestamp("stale_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Token buckets for the storage-backed rate limit store, one row per route and client
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+  // When the bucket is full again; past this the row carries no information
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// One row per paid LLM completion, priced for the model that answered. /api/costs reads this
+// ledger, so calls whose result was thrown away (failed parts, retried attempts) still count.
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  model: text("model").notNull(),
+  requestedModel: text("requested_model").notNull(),
+  source: text("source").notNull(), // build, job, playlist, batch, audio, refresh
+  videoId: text("video_id"),
+  apiKeyId: varchar("api_key_id"),
+  userId: varchar("user_id"),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  costUsd: doublePrecision("cost_usd").notNull(),
+  estimated: boolean("estimated").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertVideoJobSchema = createInsertSchema(videoProcessingJobs).omit({
@@ -109,6 +198,23 @@ export const insertProcessingMetricsSchema = createInsertSchema(processingMetric
   id: true,
 });
 
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+});
+
+export const insertCacheEntrySchema = createInsertSchema(cacheEntries).omit({
+  hits: true,
+  createdAt: true,
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -126,11 +232,50 @@ export type BatchJob = typeof batchJobs.$inferSelect;
 export type InsertBatchJob = z.infer<typeof insertBatchJobSchema>;
 export type ProcessingMetrics = typeof processingMetrics.$inferSelect;
 export type InsertProcessingMetrics = z.infer<typeof insertProcessingMetricsSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+export type CacheEntry = typeof cacheEntries.$inferSelect;
+export type InsertCacheEntry = z.infer<typeof insertCacheEntrySchema>;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
 
 // API request/response schemas
+
+// Language codes such as "en", "pt-BR" or "zh-Hans". They become part of ":"-separated cache
+// keys, so nothing else is accepted.
+export const languageCodeSchema = z.string().regex(
+  /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/,
+  "lang must be a language code such as en or pt-BR"
+);
+
 export const youtubeRequestSchema = z.object({
+  // Validated by parseYouTubeUrl, which also accepts bare video ids and links without a protocol
+  url: z.string().min(1),
+  lang: languageCodeSchema.optional().default("ru"),
+  model: z.string().optional().default("gpt-5"),
+});
+
+export const batchRequestSchema = z.object({
+  name: z.string().optional(),
+  urls: z.array(z.string().min(1)).min(1).max(100).optional(),
+  playlist: z.string().url().optional(),
+  lang: languageCodeSchema.optional().default("ru"),
+  model: z.string().optional().default("gpt-5"),
+}).refine(data => data.urls || data.playlist, {
+  message: "Either urls or playlist is required",
+});
+
+export const playlistRequestSchema = z.object({
   url: z.string().url(),
-  lang: z.string().optional().default("ru"),
+  lang: languageCodeSchema.optional().default("ru"),
+  model: z.string().optional().default("gpt-5"),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(25),
+});
+
+export const audioRequestSchema = z.object({
+  lang: languageCodeSchema.optional().default("ru"),
   model: z.string().optional().default("gpt-5"),
 });
 
@@ -139,6 +284,16 @@ export const chapterSchema = z.object({
   title: z.string(),
 });
 
+export const tokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  // At the list price of the model that answered; 0 for local and mock models
+  costUsd: z.number(),
+  // Some provider didn't report usage, so part of the counts are estimated from text length
+  estimated: z.boolean(),
+});
+
 export const youtubeResponseSchema = z.object({
   success: z.boolean(),
   videoId: z.string(),
@@ -149,10 +304,197 @@ export const youtubeResponseSchema = z.object({
   processedAt: z.string(),
   responseTime: z.number(),
   transcriptLength: z.number(),
+  // From the video metadata; lets chapter exports end the last chapter at the end of the video
+  durationSeconds: z.number().nullable().optional(),
   cached: z.boolean().optional(),
+  // Set when the request joined an identical build that was already running
+  coalesced: z.boolean().optional(),
+  // Served from cache past its soft TTL while a refresh runs in the background
+  stale: z.boolean().optional(),
+  // LLM tokens spent producing this response; absent when the summary came from cache
+  usage: tokenUsageSchema.optional(),
   error: z.string().optional(),
 });
 
+// Progress events streamed by /api/build/stream
+export type ProgressEventType = 'metadata' | 'transcript' | 'retry' | 'llm' | 'result' | 'failure';
+
+export interface ProgressEvent {
+  type: ProgressEventType;
+  status: 'started' | 'progress' | 'succeeded' | 'failed';
+  message: string;
+  timestamp: string;
+  data?: any;
+}
+
+export type ProgressCallback = (event: Omit<ProgressEvent, 'timestamp'>) => void;
+
+export const analyticsQuerySchema = z.object({
+  timeframe: z.enum(["hour", "day", "week"]).optional().default("day"),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(10),
+});
+
+export type AnalyticsTimeframe = z.infer<typeof analyticsQuerySchema>["timeframe"];
+
+// Request statistics over apiLogs, returned by /api/analytics/stats. Response times are in ms.
+export interface ApiLogStats {
+  totalRequests: number;
+  successfulRequests: number;
+  errorRate: number;
+  averageResponseTime: number;
+  p50ResponseTime: number;
+  p95ResponseTime: number;
+  p99ResponseTime: number;
+}
+
+export interface AnalyticsTimeseriesPoint {
+  bucket: string;
+  total: number;
+  successful: number;
+  failed: number;
+}
+
+// Returned by /api/analytics/dashboard
+export interface AnalyticsDashboard {
+  timeframe: AnalyticsTimeframe;
+  stats: ApiLogStats;
+  timeseries: AnalyticsTimeseriesPoint[];
+  topLanguages: Array<{ value: string; count: number }>;
+  topModels: Array<{ value: string; count: number }>;
+  cache: { hits: number; misses: number; hitRatio: number };
+  recentFailures: ApiLog[];
+}
+
+// Endpoint groups an API key can be granted; "admin" manages keys
+export const apiKeyScopes = ["build", "playlist", "batch", "audio", "admin"] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+export const createApiKeySchema = z.object({
+  userId: z.string().min(1),
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1).default(["build", "playlist", "batch", "audio"]),
+  dailyRequestLimit: z.number().int().positive().nullable().optional(),
+  dailyTokenLimit: z.number().int().positive().nullable().optional(),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+
+// Keys users issue for themselves from their session; only an admin can grant "admin"
+export const createOwnApiKeySchema = createApiKeySchema.omit({ userId: true }).refine(
+  data => !data.scopes.includes("admin"),
+  { message: "The admin scope can only be granted by an administrator", path: ["scopes"] },
+);
+
+// API key as returned by the key endpoints (never includes the hash)
+export type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+export const credentialsSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, digits, '.', '_' and '-'"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// User as returned by the auth endpoints (never includes the password hash)
+export type PublicUser = Omit<User, "password">;
+
+export const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// A video the signed-in user processed, from /api/history
+export interface HistoryEntry {
+  videoId: string;
+  language: string | null;
+  model: string | null;
+  source: "build" | "job";
+  status: string;
+  jobId: string | null;
+  tldr: string | null;
+  createdAt: string;
+}
+
+export const processingTypes = ["youtube", "audio", "batch"] as const;
+export type ProcessingType = typeof processingTypes[number];
+
+export const metricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// What an LLM call was made for, recorded on llmUsage rows
+export const llmUsageSources = ["build", "job", "playlist", "batch", "audio", "refresh"] as const;
+export type LlmUsageSource = typeof llmUsageSources[number];
+
+export const costGroupings = ["day", "model", "apiKey", "user"] as const;
+export type CostGrouping = typeof costGroupings[number];
+
+export const costReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  groupBy: z.enum(costGroupings).default("day"),
+});
+
+export interface CostTotals {
+  // LLM completions, not API requests
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// Returned by /api/costs; key is the UTC date, model, API key id or user id (null when unattributed)
+export interface CostReport {
+  groupBy: CostGrouping;
+  days: number;
+  since: string;
+  rows: Array<CostTotals & { key: string | null }>;
+  total: CostTotals;
+}
+
+// Text formats /api/build can render chapters in instead of the JSON response
+export const chapterExportFormats = ["youtube", "vtt", "srt", "markdown", "ffmetadata"] as const;
+export type ChapterExportFormat = typeof chapterExportFormats[number];
+
+export const buildFormatSchema = z.enum(["json", ...chapterExportFormats]).default("json");
+
+// Entries returned by /api/cache
+export type CacheTier = 'response' | 'metadata' | 'transcript' | 'llm';
+
+export interface CacheEntryInfo {
+  key: string;
+  tier: CacheTier | 'unknown';
+  sizeBytes: number;
+  ageSeconds: number;
+  ttlRemainingSeconds: number;
+  hits: number;
+  stale: boolean;
+}
+
+// List price in USD per million tokens
+export interface ModelPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+// Entries returned by /api/models
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: string;
+  fallbacks: string[];
+  pricing: ModelPricing;
+}
+
 export type YoutubeRequest = z.infer<typeof youtubeRequestSchema>;
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+export type AudioRequest = z.infer<typeof audioRequestSchema>;
+export type PlaylistRequest = z.infer<typeof playlistRequestSchema>;
+export type BatchItemResult = NonNullable<BatchJob['results']>[number];
 export type YoutubeResponse = z.infer<typeof youtubeResponseSchema>;
+export type TokenUsage = z.infer<typeof tokenUsageSchema>;
 export type Chapter = z.infer<typeof chapterSchema>;
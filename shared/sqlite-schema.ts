@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+
+// SQLite mirror of the tables in ./schema.ts, used by SQLiteStorage (STORAGE_DRIVER=sqlite).
+// Column names, nullability and defaults must match so both drivers share the inferred row
+// types; after changing a table in either file run `npm run db:generate:sqlite`.
+
+// Timestamps are stored as epoch milliseconds
+const timestamp = (name: string) => integer(name, { mode: "timestamp_ms" });
+const id = () => text("id").primaryKey().$defaultFn(() => randomUUID());
+const createdAt = () => timestamp("created_at").$defaultFn(() => new Date());
+
+export const users = sqliteTable("users", {
+  id: id(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const videoProcessingJobs = sqliteTable("video_processing_jobs", {
+  id: id(),
+  videoId: text("video_id").notNull(),
+  videoUrl: text("video_url").notNull(),
+  userId: text("user_id"),
+  status: text("status").notNull().default("pending"),
+  tldr: text("tldr"),
+  chapters: text("chapters", { mode: "json" }).$type<Array<{ time: string; title: string }>>(),
+  model: text("model").notNull(),
+  language: text("language").notNull().default("ru"),
+  transcriptLength: integer("transcript_length"),
+  responseTime: integer("response_time"),
+  apiKeyId: text("api_key_id"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: real("cost_usd"),
+  errorMessage: text("error_message"),
+  createdAt: createdAt(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const apiLogs = sqliteTable("api_logs", {
+  id: id(),
+  videoId: text("video_id"),
+  endpoint: text("endpoint").notNull(),
+  method: text("method").notNull(),
+  statusCode: integer("status_code").notNull(),
+  language: text("language"),
+  model: text("model"),
+  cacheHit: integer("cache_hit", { mode: "boolean" }),
+  apiKeyId: text("api_key_id"),
+  userId: text("user_id"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: real("cost_usd"),
+  responseTime: integer("response_time"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  errorMessage: text("error_message"),
+  createdAt: createdAt(),
+});
+
+export const audioUploads = sqliteTable("audio_uploads", {
+  id: id(),
+  fileName: text("file_name").notNull(),
+  originalName: text("original_name").notNull(),
+  filePath: text("file_path").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  userId: text("user_id"),
+  apiKeyId: text("api_key_id"),
+  status: text("status").notNull().default("uploaded"),
+  transcriptText: text("transcript_text"),
+  detectedLanguage: text("detected_language"),
+  processingTime: integer("processing_time"),
+  errorMessage: text("error_message"),
+  createdAt: createdAt(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const batchJobs = sqliteTable("batch_jobs", {
+  id: id(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  userId: text("user_id"),
+  apiKeyId: text("api_key_id"),
+  status: text("status").notNull().default("pending"),
+  totalItems: integer("total_items").notNull(),
+  processedItems: integer("processed_items").default(0),
+  successfulItems: integer("successful_items").default(0),
+  failedItems: integer("failed_items").default(0),
+  results: text("results", { mode: "json" }).$type<Array<{ id: string; status: string; result?: any; error?: string }>>(),
+  createdAt: createdAt(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const processingMetrics = sqliteTable("processing_metrics", {
+  id: id(),
+  date: timestamp("date").notNull(),
+  processingType: text("processing_type").notNull(),
+  totalRequests: integer("total_requests").default(0),
+  successfulRequests: integer("successful_requests").default(0),
+  failedRequests: integer("failed_requests").default(0),
+  avgResponseTime: integer("avg_response_time").default(0),
+  topLanguage: text("top_language"),
+  topModel: text("top_model"),
+  rolledUpAt: timestamp("rolled_up_at"),
+}, (table) => ({
+  dateTypeIdx: uniqueIndex("processing_metrics_date_type_idx").on(table.date, table.processingType),
+}));
+
+export const apiKeys = sqliteTable("api_keys", {
+  id: id(),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes", { mode: "json" }).$type<string[]>().notNull(),
+  dailyRequestLimit: integer("daily_request_limit"),
+  dailyTokenLimit: integer("daily_token_limit"),
+  createdAt: createdAt(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const apiKeyUsage = sqliteTable("api_key_usage", {
+  id: id(),
+  apiKeyId: text("api_key_id").notNull().references(() => apiKeys.id),
+  date: timestamp("date").notNull(),
+  requests: integer("requests").notNull().default(0),
+  tokens: integer("tokens").notNull().default(0),
+}, (table) => ({
+  keyDateIdx: uniqueIndex("api_key_usage_key_date_idx").on(table.apiKeyId, table.date),
+}));
+
+// express-session store for SQLiteStorage; on Postgres connect-pg-simple manages its own table
+export const sessions = sqliteTable("sessions", {
+  sid: text("sid").primaryKey(),
+  sess: text("sess", { mode: "json" }).notNull(),
+  expire: timestamp("expire").notNull(),
+});
+
+export const cacheEntries = sqliteTable("cache_entries", {
+  key: text("key").primaryKey(),
+  value: text("value", { mode: "json" }).notNull(),
+  sizeBytes: integer("size_bytes").notNull().default(0),
+  hits: integer("hits").notNull().default(0),
+  createdAt: createdAt(),
+  staleAt: timestamp("stale_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const rateLimitBuckets = sqliteTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: real("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const llmUsage = sqliteTable("llm_usage", {
+  id: id(),
+  model: text("model").notNull(),
+  requestedModel: text("requested_model").notNull(),
+  source: text("source").notNull(),
+  videoId: text("video_id"),
+  apiKeyId: text("api_key_id"),
+  userId: text("user_id"),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  costUsd: real("cost_usd").notNull(),
+  estimated: integer("estimated", { mode: "boolean" }).notNull().default(false),
+  createdAt: createdAt(),
+});
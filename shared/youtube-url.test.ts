@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractVideoId,
+  isValidVideoId,
+  parseTimeOffset,
+  parseYouTubeUrl,
+  type ParsedYouTubeUrl,
+  type YouTubeUrlErrorReason,
+} from "./youtube-url";
+
+const ID = "dQw4w9WgXcQ";
+
+type Expected = Partial<Omit<ParsedYouTubeUrl, "canonicalUrl">>;
+
+const accepted: Array<[string, Expected]> = [
+  // Watch pages on every host
+  [`https://www.youtube.com/watch?v=${ID}`, { kind: "watch" }],
+  [`https://youtube.com/watch?v=${ID}&feature=share`, { kind: "watch" }],
+  [`http://www.youtube.com/watch?feature=player_embedded&v=${ID}`, { kind: "watch" }],
+  [`https://m.youtube.com/watch?v=${ID}`, { kind: "watch" }],
+  [`https://music.youtube.com/watch?v=${ID}`, { kind: "watch" }],
+  [`HTTPS://WWW.YOUTUBE.COM/watch?v=${ID}`, { kind: "watch" }],
+  [`www.youtube.com/watch?v=${ID}`, { kind: "watch" }],
+
+  // Short links
+  [`https://youtu.be/${ID}`, { kind: "watch" }],
+  [`youtu.be/${ID}`, { kind: "watch" }],
+  [`https://www.youtu.be/${ID}`, { kind: "watch" }],
+
+  // Path-based kinds
+  [`https://www.youtube.com/shorts/${ID}`, { kind: "short" }],
+  [`https://youtube.com/shorts/${ID}?feature=share`, { kind: "short" }],
+  [`https://www.youtube.com/live/${ID}`, { kind: "live" }],
+  [`https://www.youtube.com/live/${ID}?si=abc`, { kind: "live" }],
+  [`https://www.youtube.com/embed/${ID}`, { kind: "embed" }],
+  [`https://www.youtube.com/v/${ID}`, { kind: "embed" }],
+  [`https://www.youtube.com/e/${ID}`, { kind: "embed" }],
+  [`https://www.youtube-nocookie.com/embed/${ID}`, { kind: "embed" }],
+  [`https://youtube-nocookie.com/embed/${ID}`, { kind: "embed" }],
+
+  // Bare ids
+  [ID, { kind: "id" }],
+  [`  ${ID}  `, { kind: "id" }],
+  ["a-b_c-D_e-F", { videoId: "a-b_c-D_e-F", kind: "id" }],
+
+  // Start offsets
+  [`https://youtu.be/${ID}?t=42`, { startSeconds: 42 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=90s`, { startSeconds: 90 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=1m30s`, { startSeconds: 90 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, { startSeconds: 3723 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=01:30`, { startSeconds: 90 }],
+  [`https://www.youtube.com/embed/${ID}?start=15`, { kind: "embed", startSeconds: 15 }],
+  [`https://www.youtube.com/watch?v=${ID}#t=2m`, { startSeconds: 120 }],
+  [`https://www.youtube.com/watch?v=${ID}&t=soon`, { startSeconds: null }],
+  [`https://www.youtube.com/watch?v=${ID}`, { startSeconds: null }],
+
+  // Playlist context
+  [`https://www.youtube.com/watch?v=${ID}&list=PL123&index=3`, { playlistId: "PL123", playlistIndex: 3 }],
+  [`https://youtu.be/${ID}?list=PL123`, { playlistId: "PL123", playlistIndex: null }],
+  [`https://music.youtube.com/watch?v=${ID}&list=RDAMVM${ID}`, { playlistId: `RDAMVM${ID}` }],
+  [`https://www.youtube.com/watch?v=${ID}`, { playlistId: null, playlistIndex: null }],
+];
+
+const rejected: Array<[string, YouTubeUrlErrorReason, string | null]> = [
+  ["", "empty", null],
+  ["   ", "empty", null],
+  ["http://[invalid", "invalid_url", null],
+  ["https://vimeo.com/123456", "unsupported_host", null],
+  [`https://notyoutube.com/watch?v=${ID}`, "unsupported_host", null],
+  [`https://youtube.com.evil.example/watch?v=${ID}`, "unsupported_host", null],
+  ["https://example.com/playlist?list=PL123", "unsupported_host", "PL123"],
+  ["https://www.youtube.com/playlist?list=PL123", "missing_video_id", "PL123"],
+  ["https://www.youtube.com/@somechannel", "missing_video_id", null],
+  ["https://www.youtube.com/watch", "missing_video_id", null],
+  ["https://www.youtube.com/shorts/", "missing_video_id", null],
+  ["https://youtu.be/", "missing_video_id", null],
+  ["https://www.youtube.com/watch?v=tooshort", "invalid_video_id", null],
+  [`https://www.youtube.com/watch?v=${ID}X&list=PL123`, "invalid_video_id", "PL123"],
+  ["https://youtu.be/not!valid!!", "invalid_video_id", null],
+];
+
+describe("parseYouTubeUrl", () => {
+  it.each(accepted)("accepts %s", (input, expected) => {
+    const result = parseYouTubeUrl(input);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value).toMatchObject({ videoId: ID, ...expected });
+  });
+
+  it.each(rejected)("rejects %j as %s", (input, reason, playlistId) => {
+    const result = parseYouTubeUrl(input);
+    expect(result).toMatchObject({ ok: false, reason, playlistId });
+    if (result.ok) return;
+
+    expect(result.message).not.toBe("");
+  });
+
+  it("builds a canonical watch URL with the offset and playlist", () => {
+    const result = parseYouTubeUrl(`youtu.be/${ID}?t=1m30s&list=PL123`);
+    expect(result.ok && result.value.canonicalUrl).toBe(
+      `https://www.youtube.com/watch?v=${ID}&t=90s&list=PL123`,
+    );
+  });
+});
+
+describe("parseTimeOffset", () => {
+  it.each([
+    ["90", 90],
+    ["90s", 90],
+    ["2m", 120],
+    ["1m30s", 90],
+    ["1h2m3s", 3723],
+    ["1h", 3600],
+    ["01:30", 90],
+    ["1:02:03", 3723],
+    ["", null],
+    [null, null],
+    ["soon", null],
+    ["1:2", null],
+  ])("parses %j as %j", (value, seconds) => {
+    expect(parseTimeOffset(value)).toBe(seconds);
+  });
+});
+
+describe("extractVideoId / isValidVideoId", () => {
+  it("returns the id of a video link and null otherwise", () => {
+    expect(extractVideoId(`https://www.youtube.com/shorts/${ID}`)).toBe(ID);
+    expect(extractVideoId("https://www.youtube.com/playlist?list=PL123")).toBeNull();
+  });
+
+  it.each([
+    [ID, true],
+    ["a-b_c-D_e-F", true],
+    ["tooshort", false],
+    [`${ID}X`, false],
+    ["dQw4w9WgXc!", false],
+  ])("isValidVideoId(%j) is %j", (videoId, valid) => {
+    expect(isValidVideoId(videoId)).toBe(valid);
+  });
+});
@@ -0,0 +1,183 @@
+// YouTube URL parsing shared by the server routes and the client
+
+export type YouTubeUrlErrorReason =
+  | "empty"
+  | "invalid_url"
+  | "unsupported_host"
+  | "missing_video_id"
+  | "invalid_video_id";
+
+export type YouTubeUrlKind = "watch" | "short" | "live" | "embed" | "id";
+
+export interface ParsedYouTubeUrl {
+  videoId: string;
+  kind: YouTubeUrlKind;
+  startSeconds: number | null;
+  playlistId: string | null;
+  playlistIndex: number | null;
+  canonicalUrl: string;
+}
+
+export type YouTubeUrlParseResult =
+  | { ok: true; value: ParsedYouTubeUrl }
+  | { ok: false; reason: YouTubeUrlErrorReason; message: string; playlistId: string | null };
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+// Hosts that serve the regular watch page layout (www., m., music. and the privacy-enhanced embed domain)
+const YOUTUBE_HOSTS = [
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+  "music.youtube.com",
+  "youtube-nocookie.com",
+  "www.youtube-nocookie.com",
+];
+
+// Path prefixes whose next segment is the video id
+const PATH_KINDS: Record<string, YouTubeUrlKind> = {
+  shorts: "short",
+  live: "live",
+  embed: "embed",
+  v: "embed",
+  e: "embed",
+};
+
+const ERROR_MESSAGES: Record<YouTubeUrlErrorReason, string> = {
+  empty: "URL is empty",
+  invalid_url: "Not a valid URL",
+  unsupported_host: "URL is not a YouTube link",
+  missing_video_id: "URL does not contain a video ID",
+  invalid_video_id: "Video ID must be 11 characters of letters, digits, '-' or '_'",
+};
+
+export function isValidVideoId(videoId: string): boolean {
+  return VIDEO_ID_PATTERN.test(videoId);
+}
+
+/**
+ * Parse any supported YouTube link (watch, youtu.be, shorts, live, embed, /v/, mobile, music,
+ * nocookie) or a bare 11-character video id.
+ */
+export function parseYouTubeUrl(input: string): YouTubeUrlParseResult {
+  const trimmed = (input || "").trim();
+  if (!trimmed) {
+    return failure("empty");
+  }
+
+  if (isValidVideoId(trimmed)) {
+    return success(trimmed, "id", null, null, null);
+  }
+
+  let url: URL;
+  try {
+    // Accept links pasted without a protocol, e.g. "youtu.be/dQw4w9WgXcQ"
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return failure("invalid_url");
+  }
+
+  const host = url.hostname.toLowerCase();
+  const playlistId = url.searchParams.get("list");
+  const indexParam = parseInt(url.searchParams.get("index") || "", 10);
+  const playlistIndex = Number.isFinite(indexParam) ? indexParam : null;
+  const startSeconds = parseStartOffset(url);
+
+  let videoId: string | null = null;
+  let kind: YouTubeUrlKind = "watch";
+
+  if (host === "youtu.be" || host === "www.youtu.be") {
+    videoId = url.pathname.split("/").filter(Boolean)[0] || null;
+  } else if (YOUTUBE_HOSTS.includes(host)) {
+    const [first, second] = url.pathname.split("/").filter(Boolean);
+
+    if (first && PATH_KINDS[first]) {
+      kind = PATH_KINDS[first];
+      videoId = second || null;
+    } else {
+      videoId = url.searchParams.get("v");
+    }
+  } else {
+    return failure("unsupported_host", playlistId);
+  }
+
+  if (!videoId) {
+    return failure("missing_video_id", playlistId);
+  }
+  if (!isValidVideoId(videoId)) {
+    return failure("invalid_video_id", playlistId);
+  }
+
+  return success(videoId, kind, startSeconds, playlistId, playlistIndex);
+}
+
+/**
+ * Convenience wrapper returning only the video id, or null when the URL is not a video link
+ */
+export function extractVideoId(input: string): string | null {
+  const result = parseYouTubeUrl(input);
+  return result.ok ? result.value.videoId : null;
+}
+
+/**
+ * Parse t=/start= values: "90", "90s", "1m30s", "1h2m3s" or "01:30"
+ */
+export function parseTimeOffset(value: string | null): number | null {
+  if (!value) return null;
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && units.slice(1).some(Boolean)) {
+    const [, hours, minutes, seconds] = units.map((part) => parseInt(part || "0", 10));
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock.map((part) => parseInt(part || "0", 10));
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  return null;
+}
+
+function parseStartOffset(url: URL): number | null {
+  const hashParams = new URLSearchParams(url.hash.replace(/^#/, ""));
+  return (
+    parseTimeOffset(url.searchParams.get("t")) ??
+    parseTimeOffset(url.searchParams.get("start")) ??
+    parseTimeOffset(hashParams.get("t"))
+  );
+}
+
+function success(
+  videoId: string,
+  kind: YouTubeUrlKind,
+  startSeconds: number | null,
+  playlistId: string | null,
+  playlistIndex: number | null,
+): YouTubeUrlParseResult {
+  const canonical = new URL("https://www.youtube.com/watch");
+  canonical.searchParams.set("v", videoId);
+  if (startSeconds) canonical.searchParams.set("t", `${startSeconds}s`);
+  if (playlistId) canonical.searchParams.set("list", playlistId);
+
+  return {
+    ok: true,
+    value: {
+      videoId,
+      kind,
+      startSeconds,
+      playlistId,
+      playlistIndex,
+      canonicalUrl: canonical.toString(),
+    },
+  };
+}
+
+function failure(reason: YouTubeUrlErrorReason, playlistId: string | null = null): YouTubeUrlParseResult {
+  return { ok: false, reason, message: ERROR_MESSAGES[reason], playlistId };
+}